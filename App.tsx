@@ -1,137 +1,236 @@
-import React, { useState, useCallback } from 'react';
-import { VideoTask, TaskStatus } from './types';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
+import { VideoTask, TaskStatus, ResolvedVideo, TransferProgress, LinkIntakeReport, VideoQuality, MediaType, ProfilePost, HistoryEntry, ArchiveSettings, ArchiveGrouping, FetchAttempt, WatchSettings, WatchedProfile } from './types';
 import { InputSection } from './components/InputSection';
 import { TaskItem } from './components/TaskItem';
-import { DownloadCloud, Play, Trash2, ShieldCheck, FolderDown, CheckCheck, Loader2, RefreshCw } from 'lucide-react';
-import JSZip from 'jszip';
+import { ProxySettings } from './components/ProxySettings';
+import { SchedulerSettings } from './components/SchedulerSettings';
+import { FileNameSettings } from './components/FileNameSettings';
+import { HistoryPanel } from './components/HistoryPanel';
+import { WatchPanel } from './components/WatchPanel';
+import { SummaryCard } from './components/SummaryCard';
+import { DownloadCloud, Play, Trash2, ShieldCheck, FolderDown, CheckCheck, Loader2, RefreshCw, Settings, Pause, Square, FileSpreadsheet, FileJson, Film, Music, History, Eye } from 'lucide-react';
 import saveAs from 'file-saver';
+import { createDefaultResolver } from './services/resolverService';
+import { loadTasks, saveTasks } from './services/storageService';
+import { resolveScheduler } from './services/scheduler';
+import { dedupeKey, prepareLinks } from './services/linkParser';
+import { scanProfile } from './services/profileService';
+import { summarizeBatch } from './services/summaryService';
+import { createTask, resolvedTaskFields, saveBatch, savedFileFields, savedSlideshowFields, slideshowEntries, withSavedFiles } from './services/batchCore';
+import { downloadHistory, historyEntryFor, loadSkipDownloaded, saveSkipDownloaded } from './services/historyService';
+import { buildManifest, manifestToCsv, manifestToJson } from './services/manifestService';
+import { createNameAllocator, fileNameContext, renderFileName, renderFolderName } from './services/fileNaming';
+import {
+  DownloadDefaults, QUALITY_LABELS, downloadSlideshow, downloadTaskMedia, effectiveMediaType, isDownloadable, isSlideshow,
+  loadDefaultMediaType, loadDefaultQuality, saveDefaultMediaType, saveDefaultQuality
+} from './services/downloadService';
+import { ArchiveMode, ArchiveTarget, IN_MEMORY_MAX_FILES, loadArchiveSettings, openArchiveTarget, openInMemoryZip, saveArchiveSettings, supportsFolderTarget, supportsStreamingZip } from './services/archiveService';
+import { isAbortError } from './utils/abort';
+import { ERROR_POLICIES, TaskError, classifyError, isRetryableKind, retryWithPolicy } from './services/errors';
+import { appendAttempt } from './services/diagnosticsService';
+import { takeSharedLinks } from './services/pwaService';
+import { checkWatchedProfile, clipboardLinks, isProfileDue, loadWatchSettings, readClipboardText, saveWatchSettings } from './services/watchService';
+
+// Provider chain (TikWM by default, see RESOLVER_PROVIDERS)
+const videoResolver = createDefaultResolver();
+
+const ARCHIVE_GROUPINGS: [ArchiveGrouping, string][] = [
+  ['none', 'No grouping'],
+  ['author', 'Group by author'],
+  ['date', 'Group by upload date'],
+  ['source', 'Group by import source']
+];
+
+// How often watched profiles are looked at; each is only checked once its interval has passed
+const WATCH_TICK_MS = 60 * 1000;
+
+const MB = 1024 * 1024;
+const VOLUME_SIZES: [number, string][] = [
+  [0, 'Single archive'],
+  [500 * MB, 'Split at 500 MB'],
+  [1024 * MB, 'Split at 1 GB'],
+  [2048 * MB, 'Split at 2 GB'],
+  [4000 * MB, 'Split at 4 GB']
+];
 
 const App: React.FC = () => {
   const [tasks, setTasks] = useState<VideoTask[]>([]);
   const [isProcessing, setIsProcessing] = useState(false);
   const [isZipping, setIsZipping] = useState(false);
-
-  // Helper: Try multiple proxies to fetch data (JSON or Blob)
-  // This solves the "Failed to fetch" error by having backups.
-  const fetchWithProxies = async (targetUrl: string, type: 'json' | 'blob') => {
-    // Proxy strategies
-    const strategies = [
-      // 1. CorsProxy.io - Fast, usually reliable
-      (u: string) => `https://corsproxy.io/?${encodeURIComponent(u)}`,
-      // 2. AllOrigins Raw - Good for direct data
-      (u: string) => `https://api.allorigins.win/raw?url=${encodeURIComponent(u)}`,
-      // 3. CodeTabs - Excellent for binaries/videos
-      (u: string) => `https://api.codetabs.com/v1/proxy?quest=${encodeURIComponent(u)}`,
-      // 4. Direct (Try as last resort, some CDNs allow it)
-      (u: string) => u
-    ];
-
-    // Try standard proxies
-    for (const createProxyUrl of strategies) {
-      try {
-        const url = createProxyUrl(targetUrl);
-        const controller = new AbortController();
-        // 15s timeout for video blobs, 8s for JSON
-        const timeoutId = setTimeout(() => controller.abort(), type === 'blob' ? 15000 : 8000);
-
-        const response = await fetch(url, { signal: controller.signal });
-        clearTimeout(timeoutId);
-
-        if (!response.ok) continue;
-
-        if (type === 'json') {
-           // Clone locally to try parsing
-           const text = await response.text();
-           try {
-             return JSON.parse(text);
-           } catch {
-             // If text isn't JSON, this proxy might have returned an HTML error page
-             continue;
-           }
-        } else {
-          return await response.blob();
+  const [archiveMode, setArchiveMode] = useState<ArchiveMode>('zip');
+  const [archiveSettings, setArchiveSettings] = useState<ArchiveSettings>(() => loadArchiveSettings());
+  const [showSettings, setShowSettings] = useState(false);
+  const [defaultQuality, setDefaultQuality] = useState<VideoQuality>(() => loadDefaultQuality());
+  const [defaultMediaType, setDefaultMediaType] = useState<MediaType>(() => loadDefaultMediaType());
+  const [isPaused, setIsPaused] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [skipDownloaded, setSkipDownloaded] = useState(() => loadSkipDownloaded());
+  const [showWatch, setShowWatch] = useState(false);
+  const [watchSettings, setWatchSettings] = useState<WatchSettings>(() => loadWatchSettings());
+  const watchRef = useRef(watchSettings);
+  const isHydrated = useRef(false);
+  const tasksRef = useRef(tasks);
+  tasksRef.current = tasks;
+  const taskControllers = useRef(new Map<string, AbortController>());
+  const batchAbort = useRef<AbortController | null>(null);
+
+  // Restore the persisted queue once on load
+  useEffect(() => {
+    let cancelled = false;
+    downloadHistory.load();
+    loadTasks()
+      .then(restored => {
+        // Keep anything the user added while the database was opening
+        if (!cancelled && restored.length > 0) {
+          setTasks(prev => [...restored, ...prev]);
+          tasksRef.current = [...restored, ...tasksRef.current];
         }
-      } catch (err) {
-        // console.warn(`Proxy strategy failed:`, err);
-        continue;
-      }
+      })
+      .catch(err => console.warn("Could not restore saved queue:", err))
+      .finally(() => {
+        if (cancelled) return;
+        isHydrated.current = true;
+        // Links shared to the installed app join the restored queue, de-duplicated against it
+        const shared = takeSharedLinks();
+        if (shared.length > 0) {
+          addLinks(shared, 'Shared').then(({ rejected }) =>
+            rejected.forEach(r => console.warn(`Shared link not added (${r.reason}): ${r.input}`))
+          );
+        }
+      });
+    return () => { cancelled = true; };
+  }, []);
+
+  // Persist the queue after every change (debounced, skipped until restored)
+  useEffect(() => {
+    if (!isHydrated.current) return;
+    const timeoutId = setTimeout(() => {
+      saveTasks(tasks).catch(err => console.warn("Could not save queue:", err));
+    }, 300);
+    return () => clearTimeout(timeoutId);
+  }, [tasks]);
+
+  // Resolve a TikTok link through the configured provider chain
+  const resolveVideoData = async (url: string, signal?: AbortSignal, onAttempt?: (attempt: FetchAttempt) => void): Promise<ResolvedVideo> => {
+    try {
+      return await videoResolver.resolve(url, signal, onAttempt);
+    } catch (error: any) {
+      if (isAbortError(error)) throw error;
+      console.error("Resolve error:", error);
+      if (error instanceof TaskError) throw error;
+      throw new TaskError(classifyError(error), error.message || 'Video data not found. Link might be invalid.');
     }
+  };
 
-    // Special Fallback for JSON only: AllOrigins /get endpoint
-    // This returns JSON wrapped in { contents: "..." } which bypasses some strict CORS headers
-    if (type === 'json') {
-       try {
-         const res = await fetch(`https://api.allorigins.win/get?url=${encodeURIComponent(targetUrl)}`);
-         if (res.ok) {
-           const wrapper = await res.json();
-           if (wrapper.contents) {
-             // Depending on the API, contents might be stringified JSON or just the string
-             try {
-                return JSON.parse(wrapper.contents);
-             } catch {
-                return wrapper.contents;
-             }
-           }
-         }
-       } catch (e) {
-         console.warn("AllOrigins /get fallback failed");
-       }
-    }
+  // Each running task gets its own controller so it can be cancelled on its own
+  const startTaskController = (id: string) => {
+    const controller = new AbortController();
+    taskControllers.current.set(id, controller);
+    return controller;
+  };
 
-    throw new Error("All proxies failed to fetch data.");
+  const releaseTaskController = (id: string, controller: AbortController) => {
+    if (taskControllers.current.get(id) === controller) taskControllers.current.delete(id);
   };
 
-  // Real TikTok Resolver using robust proxy rotation and rate limit handling
-  const resolveVideoData = async (url: string, retryCount = 0): Promise<any> => {
-    // API URL for TikWM
-    const apiUrl = `https://www.tikwm.com/api/?url=${encodeURIComponent(url)}`;
-    
-    try {
-      // Use the helper to try multiple proxies
-      const data = await fetchWithProxies(apiUrl, 'json');
-
-      // Check tikwm specific response code
-      if (data && data.code === 0 && data.data) {
-        return {
-          title: data.data.title || `tiktok_video_${data.data.id}`,
-          thumbnail: data.data.cover,
-          downloadUrl: data.data.play, // MP4 URL
-          size: data.data.size
-        };
-      } else {
-        // Handle Rate Limit specifically
-        if (data?.msg && typeof data.msg === 'string' && data.msg.toLowerCase().includes('limit')) {
-           if (retryCount < 3) {
-             console.warn(`Rate limit hit. Retrying in 2s... (Attempt ${retryCount + 1})`);
-             await new Promise(r => setTimeout(r, 2000 + (retryCount * 1000)));
-             return resolveVideoData(url, retryCount + 1);
-           }
-        }
-        throw new Error(data?.msg || 'Video not found');
-      }
-    } catch (error: any) {
-      // If error is explicitly about limit from a throw above
-      if (error.message && error.message.toLowerCase().includes('limit') && retryCount < 3) {
-         await new Promise(r => setTimeout(r, 2000));
-         return resolveVideoData(url, retryCount + 1);
-      }
-      
-      console.error("Resolve error:", error);
-      throw new Error(error.message || 'Video data not found. Link might be invalid.');
-    }
+  const cancelTask = (id: string) => {
+    taskControllers.current.get(id)?.abort();
+  };
+
+  // Short links are expanded through the resolver to learn their video ID
+  const expandShortLink = async (url: string) => {
+    const data = await resolveScheduler.execute(signal => videoResolver.resolve(url, signal));
+    return data.videoId;
   };
 
-  const addLinks = (links: string[]) => {
-    const newTasks: VideoTask[] = links.map(url => ({
-      id: Math.random().toString(36).substr(2, 9),
-      url,
-      status: TaskStatus.IDLE,
-      progress: 0
-    }));
+  // Page through a creator's posts; each page request shares the resolver's rate limit
+  const scanProfilePosts = (username: string, onPage: (posts: ProfilePost[]) => void, signal: AbortSignal) =>
+    scanProfile(videoResolver, username, {
+      signal,
+      onPage,
+      runRequest: request => resolveScheduler.execute(request, signal)
+    });
+
+  // Normalize, expand and de-duplicate pasted lines before queueing them
+  const addLinks = async (lines: string[], source = 'Pasted'): Promise<LinkIntakeReport> => {
+    const existingKeys = new Set<string>(tasksRef.current.map(t => dedupeKey(t.url, t.videoId)));
+    await downloadHistory.load();
+    const { accepted, rejected } = await prepareLinks(
+      lines, existingKeys, expandShortLink, skipDownloaded ? downloadHistory.has : undefined
+    );
+
+    const newTasks: VideoTask[] = accepted.map(link => createTask(link.url, link.videoId, source));
     setTasks(prev => [...prev, ...newTasks]);
+    // Back-to-back calls (e.g. several import sections) must see these before the next render
+    tasksRef.current = [...tasksRef.current, ...newTasks];
+
+    return { added: newTasks.length, rejected };
   };
 
+  // Watch mode: TikTok links copied elsewhere are queued when the user comes back to the tab
+  useEffect(() => {
+    if (!watchSettings.clipboard) return;
+    let lastText: string | undefined;
+    const onFocus = async () => {
+      if (!isHydrated.current) return;
+      try {
+        const text = await readClipboardText();
+        // Unchanged clipboard: nothing new to add
+        if (text === lastText) return;
+        lastText = text;
+        const links = clipboardLinks(text);
+        if (links.length > 0) await addLinks(links, 'Clipboard');
+      } catch (err) {
+        console.warn("Clipboard watch could not read the clipboard:", err);
+      }
+    };
+    window.addEventListener('focus', onFocus);
+    return () => window.removeEventListener('focus', onFocus);
+  }, [watchSettings.clipboard, skipDownloaded]);
+
+  // Watch mode: check the watched profiles that are due and queue their new posts.
+  // Profile checks share the resolver's rate limit; addLinks drops posts already queued.
+  const watchedProfilesKey = watchSettings.profiles.map(p => p.username).join(',');
+  useEffect(() => {
+    if (!watchedProfilesKey) return;
+    const controller = new AbortController();
+    let isPolling = false;
+
+    const poll = async () => {
+      if (isPolling || !isHydrated.current) return;
+      isPolling = true;
+      try {
+        const { profiles, intervalMinutes } = watchRef.current;
+        for (const profile of profiles.filter(p => isProfileDue(p, intervalMinutes))) {
+          try {
+            const result = await checkWatchedProfile(videoResolver, profile, request =>
+              resolveScheduler.execute(request, controller.signal)
+            );
+            if (result.newPosts.length > 0) {
+              await addLinks(result.newPosts.map(post => post.url), `@${profile.username}`);
+            }
+            updateWatchedProfile(profile.username, () => result.profile);
+          } catch (err: any) {
+            if (isAbortError(err)) return;
+            console.warn(`Could not check watched profile @${profile.username}:`, err);
+            updateWatchedProfile(profile.username, p => ({ ...p, lastCheckedAt: Date.now(), lastError: err?.message || 'Check failed' }));
+          }
+        }
+      } finally {
+        isPolling = false;
+      }
+    };
+
+    poll();
+    const intervalId = setInterval(poll, WATCH_TICK_MS);
+    return () => {
+      clearInterval(intervalId);
+      controller.abort();
+    };
+  }, [watchedProfilesKey, skipDownloaded]);
+
   const removeTask = (id: string) => {
+    cancelTask(id);
     setTasks(prev => prev.filter(t => t.id !== id));
   };
 
@@ -139,158 +238,301 @@ const App: React.FC = () => {
     setTasks(prev => prev.filter(t => t.status !== TaskStatus.COMPLETED));
   };
 
+  // Resolve one task and write the outcome back. Cancelled tasks return to IDLE.
+  const runTask = async (task: VideoTask, fallbackError: string) => {
+    const controller = startTaskController(task.id);
+
+    setTasks(prev => prev.map(t => t.id === task.id ? { ...t, status: TaskStatus.DOWNLOADING, progress: 0, errorMessage: undefined, errorKind: undefined, resumable: undefined } : t));
+
+    try {
+      // Resolve Real Data
+      // Rate limits are retried by the scheduler, other transient failures per their policy
+      const data = await retryWithPolicy(
+        () => resolveScheduler.execute(
+          signal => resolveVideoData(task.url, signal, attempt => recordAttempt(task.id, attempt)),
+          controller.signal
+        ),
+        controller.signal
+      );
+
+      // Update with Real Data
+      setTasks(prev => prev.map(t => t.id === task.id ? { ...t, ...resolvedTaskFields(t, data) } : t));
+    } catch (error: any) {
+      setTasks(prev => prev.map(t => t.id === task.id ? (isAbortError(error)
+        ? { ...t, status: TaskStatus.IDLE, progress: 0 }
+        : { ...t, status: TaskStatus.ERROR, errorMessage: error.message || fallbackError, errorKind: classifyError(error), progress: 0 }
+      ) : t));
+    } finally {
+      releaseTaskController(task.id, controller);
+    }
+  };
+
+  // Reads the queue through refs, so a call right after a state change (or a second click
+  // before the re-render) sees the current tasks and can't start a second batch
   const processBatch = useCallback(async () => {
-    if (isProcessing) return;
+    if (batchAbort.current) return;
+
+    const pendingTasks = tasksRef.current.filter(t => t.status === TaskStatus.IDLE || (t.status === TaskStatus.ERROR && isRetryableKind(t.errorKind)));
+    if (pendingTasks.length === 0) return;
+
+    const batchController = new AbortController();
+    batchAbort.current = batchController;
     setIsProcessing(true);
 
-    const pendingTasks = tasks.filter(t => t.status === TaskStatus.IDLE || t.status === TaskStatus.ERROR);
-    
-    if (pendingTasks.length === 0) {
+    // Waiting tasks show as QUEUED until the scheduler hands them to a worker
+    const pendingIds = new Set(pendingTasks.map(t => t.id));
+    setTasks(prev => prev.map(t => pendingIds.has(t.id) ? { ...t, status: TaskStatus.QUEUED, errorMessage: undefined, errorKind: undefined } : t));
+
+    try {
+      // Concurrency and request rate are governed by the shared scheduler
+      await resolveScheduler.runQueue(pendingTasks, async (task: VideoTask) => {
+        // Skip tasks removed from the queue since the batch started
+        if (!tasksRef.current.some(t => t.id === task.id)) return;
+        await runTask(task, "Failed to fetch.");
+      }, batchController.signal);
+    } finally {
+      // Anything the batch never got to (cancelled) goes back to IDLE
+      setTasks(prev => prev.map(t => pendingIds.has(t.id) && t.status === TaskStatus.QUEUED ? { ...t, status: TaskStatus.IDLE } : t));
+      batchAbort.current = null;
+      resolveScheduler.resume();
+      setIsPaused(false);
       setIsProcessing(false);
-      return;
     }
+  }, []);
 
-    // REDUCED BATCH SIZE TO 1 to prevent "Free Api Limit" errors
-    const BATCH_SIZE = 1; 
-    
-    for (let i = 0; i < pendingTasks.length; i += BATCH_SIZE) {
-      const chunk = pendingTasks.slice(i, i + BATCH_SIZE);
-      
-      // Update status to Downloading
-      setTasks(prev => prev.map(t => {
-        if (chunk.find(c => c.id === t.id)) {
-          return { ...t, status: TaskStatus.DOWNLOADING, progress: 20, errorMessage: undefined };
-        }
-        return t;
-      }));
-
-      // Process chunk
-      await Promise.all(chunk.map(async (task) => {
-         try {
-             // Resolve Real Data
-             const data = await resolveVideoData(task.url);
-             
-             // Update with Real Data
-             setTasks(prev => prev.map(t => t.id === task.id ? { 
-                ...t, 
-                title: data.title,
-                thumbnail: data.thumbnail,
-                downloadUrl: data.downloadUrl,
-                status: TaskStatus.COMPLETED,
-                progress: 100
-             } : t));
-
-         } catch (error: any) {
-             setTasks(prev => prev.map(t => t.id === task.id ? { 
-                ...t, 
-                status: TaskStatus.ERROR,
-                errorMessage: error.message || "Failed to fetch.",
-                progress: 0
-             } : t));
-         }
-      }));
-      
-      // Force delay between requests to respect 1 req/sec limit
-      if (i + BATCH_SIZE < pendingTasks.length) {
-          await new Promise(r => setTimeout(r, 1300));
-      }
-    }
+  // Pause takes effect between tasks; the ones in flight finish first
+  const pauseBatch = () => {
+    if (!batchAbort.current) return;
+    resolveScheduler.pause();
+    setIsPaused(true);
+  };
+
+  const resumeBatchProcessing = () => {
+    resolveScheduler.resume();
+    setIsPaused(false);
+  };
 
-    setIsProcessing(false);
-  }, [tasks, isProcessing]);
+  // Stop the batch and abort everything in flight; those tasks go back to IDLE
+  const cancelBatch = () => {
+    if (!batchAbort.current) return;
+    batchAbort.current.abort();
+    taskControllers.current.forEach(controller => controller.abort());
+    resolveScheduler.resume();
+  };
 
   // Handler for single retry button
   const handleSingleRetry = async (id: string) => {
     const task = tasks.find(t => t.id === id);
     if (!task) return;
+    await runTask(task, "Retry failed.");
+  };
 
-    setTasks(prev => prev.map(t => t.id === id ? { ...t, status: TaskStatus.DOWNLOADING, progress: 20, errorMessage: undefined } : t));
+  // Handler for "Retry All Failed" button. The batch picks up retryable ERROR tasks itself;
+  // private, deleted or unparseable videos stay failed.
+  const handleRetryAllErrors = () => processBatch();
 
-    try {
-        const data = await resolveVideoData(task.url);
-        setTasks(prev => prev.map(t => t.id === id ? { 
-          ...t, 
-          title: data.title,
-          thumbnail: data.thumbnail,
-          downloadUrl: data.downloadUrl,
-          status: TaskStatus.COMPLETED,
-          progress: 100
-        } : t));
-    } catch (error: any) {
-        setTasks(prev => prev.map(t => t.id === id ? { 
-          ...t, 
-          status: TaskStatus.ERROR,
-          errorMessage: error.message || "Retry failed.",
-          progress: 0
-        } : t));
-    }
+  // Update the live transfer stats of one task (undefined clears them)
+  const updateTransfer = (id: string, transfer?: TransferProgress) => {
+    setTasks(prev => prev.map(t => t.id === id ? { ...t, transfer } : t));
   };
 
-  // Handler for "Retry All Failed" button
-  const handleRetryAllErrors = async () => {
-    // Reset all ERROR tasks to IDLE
-    setTasks(prev => prev.map(t => t.status === TaskStatus.ERROR ? { ...t, status: TaskStatus.IDLE, errorMessage: undefined, progress: 0 } : t));
-    
-    // Wait a tick for state update, then trigger batch processing
-    setTimeout(() => {
-      processBatch();
-    }, 100);
+  // Append to a task's attempt log (shown in its diagnostics section)
+  const recordAttempt = (id: string, attempt: FetchAttempt) => {
+    setTasks(prev => prev.map(t => t.id === id ? { ...t, attempts: appendAttempt(t.attempts, attempt) } : t));
   };
 
+  // An expired download link can only be fixed by resolving again, so the task is sent back
+  // to the failed list where Retry picks it up
+  const expiredDownloadFields = (error: any): Partial<VideoTask> | undefined =>
+    classifyError(error) === 'expired-url'
+      ? { status: TaskStatus.ERROR, errorKind: 'expired-url', errorMessage: error.message, progress: 0 }
+      : undefined;
+
+  const markDownloadFailed = (id: string, error: any) => {
+    const fields = expiredDownloadFields(error);
+    if (!fields) return;
+    setTasks(prev => prev.map(t => t.id === id ? { ...t, ...fields } : t));
+  };
+
+  const recordSavedFile = (id: string, fields: Partial<VideoTask>) => {
+    setTasks(prev => prev.map(t => t.id === id ? { ...t, ...fields } : t));
+    const task = tasksRef.current.find(t => t.id === id);
+    const entry = task && historyEntryFor({ ...task, ...fields });
+    if (entry) downloadHistory.record([entry]);
+  };
+
+  const changeArchiveSettings = (changes: Partial<ArchiveSettings>) => {
+    const next = { ...archiveSettings, ...changes };
+    setArchiveSettings(next);
+    saveArchiveSettings(next);
+  };
+
+  // Also called from the profile poller, so it builds on the latest settings rather than this render's
+  const changeWatchSettings = (changes: Partial<WatchSettings>) => {
+    const next = { ...watchRef.current, ...changes };
+    watchRef.current = next;
+    setWatchSettings(next);
+    saveWatchSettings(next);
+  };
+
+  const updateWatchedProfile = (username: string, update: (profile: WatchedProfile) => WatchedProfile) => {
+    changeWatchSettings({ profiles: watchRef.current.profiles.map(p => p.username === username ? update(p) : p) });
+  };
+
+  const changeSkipDownloaded = (skip: boolean) => {
+    setSkipDownloaded(skip);
+    saveSkipDownloaded(skip);
+  };
+
+  const changeDefaultQuality = (quality: VideoQuality) => {
+    setDefaultQuality(quality);
+    saveDefaultQuality(quality);
+  };
+
+  const changeDefaultMediaType = (mediaType: MediaType) => {
+    setDefaultMediaType(mediaType);
+    saveDefaultMediaType(mediaType);
+  };
+
+  // Per-task override; undefined follows the batch default again
+  const setTaskMediaType = (id: string, mediaType?: MediaType) => {
+    setTasks(prev => prev.map(t => t.id === id ? { ...t, mediaType } : t));
+  };
+
+  // Per-task override; undefined follows the batch default again
+  const setTaskQuality = (id: string, quality?: VideoQuality) => {
+    setTasks(prev => prev.map(t => t.id === id ? { ...t, quality } : t));
+  };
+
+  const exportManifest = (format: 'csv' | 'json') => {
+    const manifest = buildManifest(tasks);
+    const stamp = new Date().toISOString().slice(0, 10);
+    const content = format === 'csv' ? manifestToCsv(manifest) : manifestToJson(manifest);
+    const type = format === 'csv' ? 'text/csv;charset=utf-8' : 'application/json';
+    saveAs(new Blob([content], { type }), `tokbatch_manifest_${stamp}.${format}`);
+  };
+
+  const downloadDefaults: DownloadDefaults = { quality: defaultQuality, mediaType: defaultMediaType };
+
   const handleSingleDownload = async (task: VideoTask) => {
-    if (!task.downloadUrl) return;
+    if (!isDownloadable(task)) return;
+
+    const controller = startTaskController(task.id);
 
     try {
-      // Use the same robust proxy fetcher for the video blob
-      const blob = await fetchWithProxies(task.downloadUrl, 'blob');
-      const safeTitle = (task.title || `video_${task.id}`).replace(/[^a-z0-9]/gi, '_').substring(0, 50);
-      saveAs(blob, `${safeTitle}.mp4`);
+      // A plain download can't create a folder, so the images are zipped up instead
+      if (isSlideshow(task) && effectiveMediaType(task, downloadDefaults) === 'video') {
+        const files = await downloadSlideshow(task, {
+          onProgress: (progress) => updateTransfer(task.id, progress),
+          onAttempt: (attempt) => recordAttempt(task.id, attempt),
+          signal: controller.signal
+        });
+        const folderName = renderFolderName(fileNameContext(task)).split('/').join('_');
+        const zip = openInMemoryZip({ mode: 'zip', fileName: `${folderName}.zip`, folderName });
+        const entries = slideshowEntries('', files);
+        for (const entry of entries) {
+          await zip.addFile(entry.path, entry.blob);
+        }
+        await zip.close();
+        recordSavedFile(task.id, { ...savedSlideshowFields(folderName, entries), fileName: `${folderName}.zip` });
+        return;
+      }
+
+      // Video in the preferred quality (with fallbacks) or just the soundtrack
+      const file = await downloadTaskMedia(task, downloadDefaults, {
+        onProgress: (progress) => updateTransfer(task.id, progress),
+        onAttempt: (attempt) => recordAttempt(task.id, attempt),
+        signal: controller.signal
+      });
+      // Browsers can't create folders from a plain download, so sub folders are flattened
+      const fileName = renderFileName(fileNameContext(task, undefined, file.mediaType), file.extension).split('/').join('_');
+      saveAs(file.blob, fileName);
+      recordSavedFile(task.id, savedFileFields(fileName, file));
     } catch (error) {
+      if (isAbortError(error)) return;
       console.error("Single download failed:", error);
-      alert("Failed to download video file. The link might be expired or blocked.");
+      markDownloadFailed(task.id, error);
+      alert(error instanceof TaskError
+        ? `${ERROR_POLICIES[error.kind].label}: ${error.message}\n\n${ERROR_POLICIES[error.kind].explanation}`
+        : "Failed to download video file. The link might be expired or blocked.");
+    } finally {
+      releaseTaskController(task.id, controller);
+      updateTransfer(task.id, undefined);
     }
   };
 
   const handleBulkDownload = async () => {
-    const completedTasks = tasks.filter(t => t.status === TaskStatus.COMPLETED && t.downloadUrl);
+    const completedTasks = tasks.filter(t => t.status === TaskStatus.COMPLETED && isDownloadable(t));
     if (completedTasks.length === 0) return;
 
-    setIsZipping(true);
-    const zip = new JSZip();
+    const maxVolumeBytes = archiveMode === 'zip' ? archiveSettings.maxVolumeBytes : 0;
+    const batchSummary = summarizeBatch(completedTasks);
+
+    // Without the File System Access API the whole ZIP has to be built in memory,
+    // split into volumes or not
+    const inMemory = maxVolumeBytes ? !supportsFolderTarget() : !supportsStreamingZip();
+    if (inMemory && completedTasks.length > IN_MEMORY_MAX_FILES) {
+      const proceed = confirm(
+        `This browser can't write ZIP files straight to disk, so all ${completedTasks.length} videos will be held in memory, which may crash the tab.\n\nUse a Chromium based browser for large batches. Continue anyway?`
+      );
+      if (!proceed) return;
+    }
 
+    let target: ArchiveTarget | null;
     try {
-      const folder = zip.folder("TikTok_Batch_Download");
-      
-      // We process downloads in chunks to avoid blowing up browser memory or network
-      const DOWNLOAD_BATCH = 3;
-      
-      for (let i = 0; i < completedTasks.length; i += DOWNLOAD_BATCH) {
-        const chunk = completedTasks.slice(i, i + DOWNLOAD_BATCH);
-        
-        await Promise.all(chunk.map(async (task) => {
-          if (!task.downloadUrl) return;
-          
-          const safeTitle = (task.title || `video_${task.id}`).replace(/[^a-z0-9]/gi, '_').substring(0, 50);
-          const fileName = `${safeTitle}.mp4`;
-          
-          try {
-            // Use robust fetcher for binary data
-            const blob = await fetchWithProxies(task.downloadUrl, 'blob');
-            folder?.file(fileName, blob);
-          } catch (error) {
-            console.error(`Failed to download content for ${task.title}`, error);
-            folder?.file(`${safeTitle}_error.txt`, `Failed to download: ${task.url}\nError: Could not fetch video data via proxies.`);
-          }
-        }));
-      }
+      target = await openArchiveTarget({
+        mode: archiveMode,
+        fileName: `${batchSummary.folderName}.zip`,
+        folderName: batchSummary.folderName,
+        maxVolumeBytes
+      });
+    } catch (error) {
+      console.error("Could not open archive destination:", error);
+      alert("Could not open the selected destination for writing.");
+      return;
+    }
+    // User cancelled the save dialog
+    if (!target) return;
 
-      const content = await zip.generateAsync({ type: "blob" });
-      saveAs(content, "tiktok_videos_batch.zip");
+    setIsZipping(true);
+    // Colliding names inside one archive get numbered instead of overwriting each other
+    const allocateName = createNameAllocator();
+    // Tasks whose link expired mid-archive; they only go back to the failed list once the
+    // archive is finished, so the card (and its progress) stays up until then
+    const expired = new Map<string, Partial<VideoTask>>();
+    const withExpired = (task: VideoTask): VideoTask => expired.has(task.id) ? { ...task, ...expired.get(task.id) } : task;
+
+    try {
+      const savedFiles = await saveBatch(completedTasks, target, {
+        defaults: downloadDefaults,
+        grouping: archiveSettings.grouping,
+        allocateName,
+        onProgress: (task, progress) => updateTransfer(task.id, progress),
+        onAttempt: (task, attempt) => recordAttempt(task.id, attempt),
+        onError: (task, error) => {
+          console.error(`Failed to download content for ${task.title}`, error);
+          const fields = expiredDownloadFields(error);
+          if (fields) expired.set(task.id, fields);
+        }
+      });
+
+      // Machine readable record of the whole queue for archive tooling
+      const withFiles = withSavedFiles(savedFiles);
+      await target.addFile('manifest.json', manifestToJson(buildManifest(tasksRef.current.map(withFiles).map(withExpired), target.volumes?.())));
+      await target.close();
+      setTasks(prev => prev.map(withFiles));
+      // Remember what made it into the archive for future sessions
+      const downloadedAt = Date.now();
+      downloadHistory.record(
+        completedTasks.filter(t => savedFiles.has(t.id)).map(t => historyEntryFor(withFiles(t), downloadedAt)).filter((e): e is HistoryEntry => !!e)
+      );
 
     } catch (error) {
       console.error("Zip creation failed:", error);
+      await target.abort().catch(() => undefined);
       alert("An error occurred while creating the zip file.");
     } finally {
+      if (expired.size > 0) setTasks(prev => prev.map(withExpired));
       setIsZipping(false);
     }
   };
@@ -299,8 +541,16 @@ const App: React.FC = () => {
   const completedCount = tasks.filter(t => t.status === TaskStatus.COMPLETED).length;
   const idleCount = tasks.filter(t => t.status === TaskStatus.IDLE).length;
   const errorCount = tasks.filter(t => t.status === TaskStatus.ERROR).length;
+  const retryableCount = tasks.filter(t => t.status === TaskStatus.ERROR && isRetryableKind(t.errorKind)).length;
   const hasItems = tasks.length > 0;
-  const allComplete = hasItems && tasks.every(t => t.status === TaskStatus.COMPLETED);
+  const isWatching = watchSettings.clipboard || watchSettings.profiles.length > 0;
+  // Nothing left to run and nothing worth retrying; permanent failures (deleted, private,
+  // region locked) don't hold back the archive
+  const isSettled = completedCount > 0 && tasks.every(t =>
+    t.status === TaskStatus.COMPLETED || (t.status === TaskStatus.ERROR && !isRetryableKind(t.errorKind))
+  );
+  // Computed locally from the completed tasks once the queue has settled; also names the archive
+  const summary = isSettled ? summarizeBatch(tasks.filter(t => t.status === TaskStatus.COMPLETED)) : null;
 
   return (
     <div className="min-h-screen pb-20">
@@ -318,11 +568,34 @@ const App: React.FC = () => {
             </div>
           </div>
           
-          <div className="text-right hidden sm:block">
-             <div className="text-xs text-slate-500 flex items-center justify-end gap-1">
-               <ShieldCheck className="w-3 h-3 text-green-500" />
-               <span>Berk</span>
-             </div>
+          <div className="flex items-center gap-4">
+            <div className="text-right hidden sm:block">
+               <div className="text-xs text-slate-500 flex items-center justify-end gap-1">
+                 <ShieldCheck className="w-3 h-3 text-green-500" />
+                 <span>Berk</span>
+               </div>
+            </div>
+            <button
+              onClick={() => setShowWatch(v => !v)}
+              className={`p-2 rounded-lg transition-colors ${showWatch ? 'bg-slate-800 text-cyan-400' : 'text-slate-400 hover:text-white hover:bg-slate-800'}`}
+              title={isWatching ? "Watch mode (active)" : "Watch mode"}
+            >
+              <Eye className={`w-5 h-5 ${isWatching && !showWatch ? 'text-cyan-400' : ''}`} />
+            </button>
+            <button
+              onClick={() => setShowHistory(v => !v)}
+              className={`p-2 rounded-lg transition-colors ${showHistory ? 'bg-slate-800 text-cyan-400' : 'text-slate-400 hover:text-white hover:bg-slate-800'}`}
+              title="Download history"
+            >
+              <History className="w-5 h-5" />
+            </button>
+            <button
+              onClick={() => setShowSettings(v => !v)}
+              className={`p-2 rounded-lg transition-colors ${showSettings ? 'bg-slate-800 text-cyan-400' : 'text-slate-400 hover:text-white hover:bg-slate-800'}`}
+              title="Settings"
+            >
+              <Settings className="w-5 h-5" />
+            </button>
           </div>
         </div>
       </header>
@@ -330,7 +603,24 @@ const App: React.FC = () => {
       {/* Main Content */}
       <main className="max-w-3xl mx-auto px-4 py-8">
         
-        <InputSection onAddLinks={addLinks} />
+        {showSettings && (
+          <>
+            <SchedulerSettings />
+            <FileNameSettings />
+            <ProxySettings />
+          </>
+        )}
+
+        {showWatch && <WatchPanel settings={watchSettings} onChange={changeWatchSettings} />}
+
+        {showHistory && <HistoryPanel />}
+
+        <InputSection
+          onAddLinks={addLinks}
+          onScanProfile={scanProfilePosts}
+          skipDownloaded={skipDownloaded}
+          onSkipDownloadedChange={changeSkipDownloaded}
+        />
 
         {/* Action Bar */}
         {tasks.length > 0 && (
@@ -340,16 +630,55 @@ const App: React.FC = () => {
               {errorCount > 0 && <span className="ml-2 text-red-400">· Failed: {errorCount}</span>}
             </div>
             <div className="flex gap-2">
-               {errorCount > 0 && (
+               {retryableCount > 0 && (
                  <button
                    onClick={handleRetryAllErrors}
                    disabled={isProcessing}
                    className="flex items-center gap-2 px-3 py-1.5 text-xs font-medium text-orange-400 bg-orange-500/10 hover:bg-orange-500/20 hover:text-orange-300 border border-orange-500/20 rounded-md transition-colors"
                  >
                    <RefreshCw className="w-3.5 h-3.5" />
-                   Retry Failed
+                   Retry Failed{retryableCount < errorCount ? ` (${retryableCount})` : ''}
                  </button>
                )}
+               <div className="flex rounded-md border border-slate-700 overflow-hidden" title="Default download type for the batch">
+                 {(['video', 'audio'] as MediaType[]).map(type => (
+                   <button
+                     key={type}
+                     onClick={() => changeDefaultMediaType(type)}
+                     className={`flex items-center gap-1.5 px-2.5 py-1.5 text-xs font-medium transition-colors ${defaultMediaType === type ? 'bg-cyan-500/10 text-cyan-300' : 'text-slate-400 hover:text-white hover:bg-slate-800'}`}
+                   >
+                     {type === 'video' ? <Film className="w-3.5 h-3.5" /> : <Music className="w-3.5 h-3.5" />}
+                     {type === 'video' ? 'Video' : 'Audio'}
+                   </button>
+                 ))}
+               </div>
+               <select
+                 value={defaultQuality}
+                 disabled={defaultMediaType === 'audio'}
+                 onChange={(e) => changeDefaultQuality(e.target.value as VideoQuality)}
+                 className="px-2 py-1.5 text-xs font-medium text-slate-300 bg-slate-900 border border-slate-700 rounded-md outline-none focus:ring-2 focus:ring-cyan-500"
+                 title="Default quality for the batch"
+               >
+                 {(Object.keys(QUALITY_LABELS) as VideoQuality[]).map(q => (
+                   <option key={q} value={q}>{QUALITY_LABELS[q]}</option>
+                 ))}
+               </select>
+               <div className="flex rounded-md border border-slate-700 overflow-hidden" title="Export manifest">
+                 <button
+                   onClick={() => exportManifest('csv')}
+                   className="flex items-center gap-1.5 px-2.5 py-1.5 text-xs font-medium text-slate-400 hover:text-white hover:bg-slate-800 transition-colors"
+                 >
+                   <FileSpreadsheet className="w-3.5 h-3.5" />
+                   CSV
+                 </button>
+                 <button
+                   onClick={() => exportManifest('json')}
+                   className="flex items-center gap-1.5 px-2.5 py-1.5 text-xs font-medium text-slate-400 hover:text-white hover:bg-slate-800 border-l border-slate-700 transition-colors"
+                 >
+                   <FileJson className="w-3.5 h-3.5" />
+                   JSON
+                 </button>
+               </div>
                {completedCount > 0 && (
                  <button 
                    onClick={clearCompleted}
@@ -359,19 +688,37 @@ const App: React.FC = () => {
                    Clear Done
                  </button>
                )}
+               {isProcessing && (
+                 <>
+                   <button
+                     onClick={isPaused ? resumeBatchProcessing : pauseBatch}
+                     className="flex items-center gap-2 px-3 py-1.5 text-xs font-medium text-cyan-400 bg-cyan-500/10 hover:bg-cyan-500/20 hover:text-cyan-300 border border-cyan-500/20 rounded-md transition-colors"
+                   >
+                     {isPaused ? <Play className="w-3.5 h-3.5" /> : <Pause className="w-3.5 h-3.5" />}
+                     {isPaused ? 'Resume' : 'Pause'}
+                   </button>
+                   <button
+                     onClick={cancelBatch}
+                     className="flex items-center gap-2 px-3 py-1.5 text-xs font-medium text-red-400 bg-red-500/10 hover:bg-red-500/20 hover:text-red-300 border border-red-500/20 rounded-md transition-colors"
+                   >
+                     <Square className="w-3.5 h-3.5" />
+                     Cancel
+                   </button>
+                 </>
+               )}
                <button
                  onClick={processBatch}
-                 disabled={isProcessing || (idleCount === 0 && errorCount === 0)}
+                 disabled={isProcessing || (idleCount === 0 && retryableCount === 0)}
                  className={`
                    flex items-center gap-2 px-4 py-1.5 text-sm font-bold rounded-md transition-all
-                   ${isProcessing || (idleCount === 0 && errorCount === 0)
+                   ${isProcessing || (idleCount === 0 && retryableCount === 0)
                      ? 'bg-slate-700 text-slate-500 cursor-not-allowed'
                      : 'bg-cyan-500 text-slate-900 hover:bg-cyan-400 hover:shadow-lg hover:shadow-cyan-500/25 active:scale-95'
                    }
                  `}
                >
                  {isProcessing ? (
-                   <>Processing...</>
+                   <>{isPaused ? 'Paused' : 'Processing...'}</>
                  ) : (
                    <>
                      <Play className="w-4 h-4 fill-current" />
@@ -401,13 +748,20 @@ const App: React.FC = () => {
                 onRemove={removeTask} 
                 onDownload={handleSingleDownload}
                 onRetry={handleSingleRetry}
+                onCancel={cancelTask}
+                defaultQuality={defaultQuality}
+                onSetQuality={setTaskQuality}
+                defaultMediaType={defaultMediaType}
+                onSetMediaType={setTaskMediaType}
               />
             ))
           )}
         </div>
 
-        {/* Bulk Download Card (Shows when all items are complete) */}
-        {completedCount > 0 && allComplete && !isProcessing && (
+        {summary && !isProcessing && <SummaryCard summary={summary} />}
+
+        {/* Bulk Download Card (Shows once the queue has settled; only completed items are archived) */}
+        {isSettled && !isProcessing && (
            <div className="mt-8 bg-gradient-to-r from-green-500/10 to-emerald-500/10 border border-green-500/30 rounded-xl p-6 backdrop-blur-md animate-fade-in">
              <div className="flex flex-col sm:flex-row items-center justify-between gap-4">
                <div className="flex items-center gap-4">
@@ -418,7 +772,48 @@ const App: React.FC = () => {
                    <h3 className="text-lg font-bold text-white mb-1">All Downloads Ready!</h3>
                    <p className="text-slate-400 text-sm">
                      Successfully processed {completedCount} videos.
+                     {errorCount > 0 && <span className="text-red-400"> {errorCount} could not be downloaded and are left out.</span>}
                    </p>
+                   {supportsFolderTarget() && (
+                     <div className="mt-2 inline-flex text-xs rounded-md border border-slate-700 overflow-hidden">
+                       {(['zip', 'folder'] as ArchiveMode[]).map(mode => (
+                         <button
+                           key={mode}
+                           onClick={() => setArchiveMode(mode)}
+                           disabled={isZipping}
+                           className={`px-2.5 py-1 transition-colors ${archiveMode === mode ? 'bg-green-500/20 text-green-300' : 'text-slate-400 hover:text-white'}`}
+                         >
+                           {mode === 'zip' ? 'ZIP file' : 'Folder'}
+                         </button>
+                       ))}
+                     </div>
+                   )}
+                   <div className="mt-2 flex flex-wrap gap-2 text-xs">
+                     <select
+                       value={archiveSettings.grouping}
+                       onChange={(e) => changeArchiveSettings({ grouping: e.target.value as ArchiveGrouping })}
+                       disabled={isZipping}
+                       className="bg-slate-900 border border-slate-700 rounded-md px-2 py-1 text-slate-300 focus:outline-none focus:ring-1 focus:ring-green-500"
+                       title="Folder structure inside the archive"
+                     >
+                       {ARCHIVE_GROUPINGS.map(([value, label]) => (
+                         <option key={value} value={value}>{label}</option>
+                       ))}
+                     </select>
+                     {archiveMode === 'zip' && (
+                       <select
+                         value={archiveSettings.maxVolumeBytes}
+                         onChange={(e) => changeArchiveSettings({ maxVolumeBytes: Number(e.target.value) })}
+                         disabled={isZipping}
+                         className="bg-slate-900 border border-slate-700 rounded-md px-2 py-1 text-slate-300 focus:outline-none focus:ring-1 focus:ring-green-500"
+                         title="Split the archive into parts of at most this size"
+                       >
+                         {VOLUME_SIZES.map(([bytes, label]) => (
+                           <option key={bytes} value={bytes}>{label}</option>
+                         ))}
+                       </select>
+                     )}
+                   </div>
                  </div>
                </div>
                
@@ -436,12 +831,12 @@ const App: React.FC = () => {
                  {isZipping ? (
                      <>
                         <Loader2 className="w-5 h-5 animate-spin" />
-                        Creating Zip...
+                        {archiveMode === 'folder' ? 'Saving Files...' : 'Creating Zip...'}
                      </>
                  ) : (
                      <>
                         <FolderDown className="w-5 h-5" />
-                        Download All (.zip)
+                        {archiveMode === 'folder' ? 'Save All to Folder' : archiveSettings.maxVolumeBytes ? 'Download All (.zip parts)' : 'Download All (.zip)'}
                      </>
                  )}
                </button>
@@ -0,0 +1,216 @@
+import { mkdir, open, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { ArchiveGrouping, FileNameSettings, FileSystemProfile, TaskStatus, VideoQuality, VideoTask } from '../types';
+import { createResolverFromList } from '../services/resolverService';
+import { createScheduler } from '../services/scheduler';
+import { proxyManager } from '../services/proxyManager';
+import { prepareLinks } from '../services/linkParser';
+import { createNameAllocator, DEFAULT_FILE_NAME_SETTINGS } from '../services/fileNaming';
+import { createTask, FileTarget, resolvedTaskFields, saveBatch, withSavedFiles } from '../services/batchCore';
+import { buildManifest, manifestToJson } from '../services/manifestService';
+import { summarizeBatch } from '../services/summaryService';
+import { createZipWriter } from '../services/zipWriter';
+import { classifyError, ERROR_POLICIES, retryWithPolicy } from '../services/errors';
+import { formatBytes } from '../utils/format';
+
+// Headless batch runner: the same link intake, resolver chain, scheduler, naming and
+// manifest as the web app, writing straight to disk.
+
+const USAGE = `Usage: tokbatch download <links.txt> [options]
+
+Options:
+  --out <dir>            Where the batch folder (or ZIP) is written (default: .)
+  --concurrency <n>      Parallel resolves and downloads (default: 2)
+  --rate <n>             Max resolver requests per second (default: 1)
+  --zip                  Write one ZIP archive instead of a folder
+  --quality <q>          hd | standard | watermarked (default: standard)
+  --audio                Save only the soundtracks
+  --template <t>         File name template (default: ${DEFAULT_FILE_NAME_SETTINGS.template})
+  --file-system <fs>     universal | windows | mac | linux (default: universal)
+  --group <g>            none | author | date | source (default: none)
+  --providers <list>     Resolver chain, e.g. fixture,tikwm (default: $RESOLVER_PROVIDERS or tikwm)
+  --api-url <url>        Base URL of a local stand-in API for the fixture provider (default: $FIXTURE_API_URL)
+  --use-proxies          Route requests through the CORS proxies first, like the browser does
+  -h, --help             Show this help
+`;
+
+const QUALITIES: VideoQuality[] = ['hd', 'standard', 'watermarked'];
+const GROUPINGS: ArchiveGrouping[] = ['none', 'author', 'date', 'source'];
+const FILE_SYSTEMS: FileSystemProfile[] = ['universal', 'windows', 'mac', 'linux'];
+
+class UsageError extends Error {}
+
+const oneOf = <T extends string>(value: string | undefined, allowed: T[], fallback: T, flag: string): T => {
+  if (value === undefined) return fallback;
+  if (!allowed.includes(value as T)) throw new UsageError(`--${flag} must be one of: ${allowed.join(', ')}`);
+  return value as T;
+};
+
+const positiveNumber = (value: string | undefined, fallback: number, flag: string) => {
+  if (value === undefined) return fallback;
+  const n = Number(value);
+  if (!Number.isFinite(n) || n <= 0) throw new UsageError(`--${flag} must be a positive number`);
+  return n;
+};
+
+const log = (message: string) => process.stderr.write(`${message}\n`);
+
+const toBytes = async (data: Blob | string) =>
+  typeof data === 'string' ? Buffer.from(data, 'utf8') : Buffer.from(await data.arrayBuffer());
+
+// Plain files under `<out>/<folderName>/`
+const openDirectoryTarget = async (root: string): Promise<FileTarget & { close: () => Promise<void> }> => ({
+  addFile: async (relativePath, data) => {
+    const fullPath = path.join(root, ...relativePath.split('/'));
+    await mkdir(path.dirname(fullPath), { recursive: true });
+    await writeFile(fullPath, await toBytes(data));
+  },
+  close: async () => {}
+});
+
+// `<out>/<folderName>.zip` with everything inside a `<folderName>/` folder, like the browser ZIP
+const openZipTarget = async (zipPath: string, folderName: string): Promise<FileTarget & { close: () => Promise<void> }> => {
+  const handle = await open(zipPath, 'w');
+  const zip = createZipWriter({
+    write: async (chunk) => { await handle.write(chunk); },
+    close: () => handle.close()
+  });
+  return {
+    addFile: (relativePath, data) => zip.addFile(`${folderName}/${relativePath}`, data),
+    close: () => zip.close()
+  };
+};
+
+const download = async (args: string[]) => {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      out: { type: 'string' },
+      concurrency: { type: 'string' },
+      rate: { type: 'string' },
+      zip: { type: 'boolean' },
+      quality: { type: 'string' },
+      audio: { type: 'boolean' },
+      template: { type: 'string' },
+      'file-system': { type: 'string' },
+      group: { type: 'string' },
+      providers: { type: 'string' },
+      'api-url': { type: 'string' },
+      'use-proxies': { type: 'boolean' }
+    }
+  });
+
+  const linksFile = positionals[0];
+  if (!linksFile) throw new UsageError('Missing the links file.');
+
+  const outDir = path.resolve(values.out || '.');
+  const concurrency = positiveNumber(values.concurrency, 2, 'concurrency');
+  const defaults = {
+    quality: oneOf(values.quality, QUALITIES, 'standard', 'quality'),
+    mediaType: values.audio ? 'audio' as const : 'video' as const
+  };
+  const grouping = oneOf(values.group, GROUPINGS, 'none', 'group');
+  const fileNameSettings: FileNameSettings = {
+    template: values.template || DEFAULT_FILE_NAME_SETTINGS.template,
+    fileSystem: oneOf(values['file-system'], FILE_SYSTEMS, DEFAULT_FILE_NAME_SETTINGS.fileSystem, 'file-system')
+  };
+
+  const resolver = createResolverFromList(
+    values.providers || process.env.RESOLVER_PROVIDERS || 'tikwm',
+    values['api-url'] || process.env.FIXTURE_API_URL
+  );
+  const scheduler = createScheduler({ concurrency, maxRatePerSecond: positiveNumber(values.rate, 1, 'rate') });
+  proxyManager.setDirectFirst(!values['use-proxies']);
+
+  // Same intake as pasting into the app: canonical URLs, short links expanded, duplicates dropped
+  const lines = (await readFile(linksFile, 'utf8')).split(/\r?\n/);
+  const source = path.basename(linksFile);
+  const { accepted, rejected } = await prepareLinks(lines, new Set<string>(), async (url) =>
+    (await scheduler.execute(signal => resolver.resolve(url, signal))).videoId
+  );
+  rejected.forEach(r => log(`skipped ${r.input}: ${r.reason}`));
+  if (accepted.length === 0) {
+    log('No TikTok links to download.');
+    return 1;
+  }
+
+  let tasks: VideoTask[] = accepted.map(link => createTask(link.url, link.videoId, source));
+  log(`Resolving ${tasks.length} links with ${resolver.name}...`);
+
+  let resolvedCount = 0;
+  const resolveTask = async (task: VideoTask) => {
+    let fields: Partial<VideoTask>;
+    try {
+      const data = await retryWithPolicy(() => scheduler.execute(signal => resolver.resolve(task.url, signal)));
+      fields = resolvedTaskFields(task, data);
+    } catch (error: any) {
+      fields = { status: TaskStatus.ERROR, errorMessage: error?.message || 'Failed to resolve', errorKind: classifyError(error), progress: 0 };
+    }
+    tasks = tasks.map(t => t.id === task.id ? { ...t, ...fields } : t);
+    resolvedCount++;
+    log(`[${resolvedCount}/${tasks.length}] ${fields.status === TaskStatus.COMPLETED ? 'resolved' : 'failed  '} ${fields.title || task.url}${fields.errorKind ? ` (${ERROR_POLICIES[fields.errorKind].label}: ${fields.errorMessage})` : ''}`);
+  };
+  await scheduler.runQueue(tasks, resolveTask);
+
+  const completed = tasks.filter(t => t.status === TaskStatus.COMPLETED);
+  const { folderName } = summarizeBatch(completed.length > 0 ? completed : tasks);
+
+  await mkdir(outDir, { recursive: true });
+  const target = values.zip
+    ? await openZipTarget(path.join(outDir, `${folderName}.zip`), folderName)
+    : await openDirectoryTarget(path.join(outDir, folderName));
+
+  let failedDownloads = 0;
+  const savedFiles = await saveBatch(completed, target, {
+    defaults,
+    grouping,
+    allocateName: createNameAllocator(fileNameSettings.fileSystem),
+    fileNameSettings,
+    chunkSize: concurrency,
+    // Signed links expire; resolve the post again for a fresh one, as the app does
+    refreshTask: async (task) => {
+      log(`link expired for ${task.title || task.url}, resolving again`);
+      const data = await retryWithPolicy(() => scheduler.execute(signal => resolver.resolve(task.url, signal)));
+      const refreshed = { ...task, ...resolvedTaskFields(task, data) };
+      tasks = tasks.map(t => t.id === task.id ? refreshed : t);
+      return refreshed;
+    },
+    onError: (task, error) => {
+      failedDownloads++;
+      log(`download failed ${task.title || task.url} (${ERROR_POLICIES[classifyError(error)].label}: ${error?.message || error})`);
+    }
+  });
+  savedFiles.forEach(fields => log(`saved ${fields.fileName} (${formatBytes(fields.fileSize || 0)})`));
+
+  // Machine readable record of the whole batch, failures included
+  await target.addFile('manifest.json', manifestToJson(buildManifest(tasks.map(withSavedFiles(savedFiles)))));
+  await target.close();
+
+  const failed = tasks.length - completed.length + failedDownloads;
+  log(`Done: ${savedFiles.size} saved, ${failed} failed -> ${path.join(outDir, values.zip ? `${folderName}.zip` : folderName)}`);
+  return failed > 0 ? 1 : 0;
+};
+
+const main = async (argv: string[]) => {
+  const [command, ...rest] = argv;
+  if (!command || command === '-h' || command === '--help' || rest.includes('-h') || rest.includes('--help')) {
+    process.stdout.write(USAGE);
+    return 0;
+  }
+  if (command !== 'download') throw new UsageError(`Unknown command "${command}".`);
+  return download(rest);
+};
+
+main(process.argv.slice(2))
+  .then(code => { process.exitCode = code; })
+  .catch(error => {
+    if (error instanceof UsageError || error?.code?.startsWith?.('ERR_PARSE_ARGS')) {
+      log(`${error.message}\n\n${USAGE}`);
+      process.exitCode = 2;
+      return;
+    }
+    log(`tokbatch: ${error?.stack || error}`);
+    process.exitCode = 1;
+  });
@@ -0,0 +1,88 @@
+import React, { useState } from 'react';
+import { Activity, ChevronDown, FileDown } from 'lucide-react';
+import saveAs from 'file-saver';
+import { AttemptOutcome, VideoTask } from '../types';
+import { buildDebugLog } from '../services/diagnosticsService';
+
+interface AttemptLogProps {
+  task: VideoTask;
+}
+
+const OUTCOME_LABELS: Record<AttemptOutcome, string> = {
+  'ok': 'OK',
+  'http-error': 'HTTP error',
+  'parse-error': 'Not JSON',
+  'invalid-content': 'Bad content',
+  'provider-error': 'API error',
+  'timeout': 'Timed out',
+  'network-error': 'Network error'
+};
+
+// Diagnostics section: every request made for a task, newest first, plus a debug log export
+export const AttemptLog: React.FC<AttemptLogProps> = ({ task }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const attempts = task.attempts || [];
+  const failures = attempts.filter(a => a.outcome !== 'ok').length;
+
+  const handleExport = () => {
+    const stamp = new Date().toISOString().slice(0, 19).replace(/[:T]/g, '-');
+    saveAs(
+      new Blob([buildDebugLog(task)], { type: 'application/json' }),
+      `tokbatch_debug_${task.videoId || task.id}_${stamp}.json`
+    );
+  };
+
+  return (
+    <div className="border-t border-slate-700/60 px-4 py-3 text-xs">
+      <div className="flex items-center justify-between">
+        <button
+          onClick={() => setIsOpen(v => !v)}
+          className="flex items-center gap-1.5 text-slate-400 hover:text-white transition-colors"
+        >
+          <Activity className="w-3.5 h-3.5" />
+          Diagnostics · {attempts.length} {attempts.length === 1 ? 'attempt' : 'attempts'}
+          {failures > 0 && <span className="text-red-400">· {failures} failed</span>}
+          <ChevronDown className={`w-3.5 h-3.5 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+        </button>
+        <button
+          onClick={handleExport}
+          className="flex items-center gap-1 text-slate-400 hover:text-white transition-colors"
+          title="Save this task's attempts and proxy health as JSON for a bug report"
+        >
+          <FileDown className="w-3 h-3" />
+          Export debug log
+        </button>
+      </div>
+
+      {isOpen && (
+        <table className="w-full mt-2 font-mono text-[11px]">
+          <thead>
+            <tr className="text-left text-slate-500">
+              <th className="font-normal pr-3">Time</th>
+              <th className="font-normal pr-3">Via</th>
+              <th className="font-normal pr-3">Kind</th>
+              <th className="font-normal pr-3">Status</th>
+              <th className="font-normal pr-3 text-right">Latency</th>
+              <th className="font-normal">Outcome</th>
+            </tr>
+          </thead>
+          <tbody>
+            {[...attempts].reverse().map((attempt, index) => (
+              <tr key={index} className="text-slate-300 align-top" title={attempt.target}>
+                <td className="pr-3 text-slate-500 whitespace-nowrap">{new Date(attempt.at).toLocaleTimeString()}</td>
+                <td className="pr-3 truncate max-w-[10rem]">{attempt.strategy}</td>
+                <td className="pr-3">{attempt.urlKind}</td>
+                <td className="pr-3">{attempt.status ?? '–'}</td>
+                <td className="pr-3 text-right whitespace-nowrap">{attempt.latencyMs} ms</td>
+                <td className={attempt.outcome === 'ok' ? 'text-green-400' : 'text-red-400'}>
+                  {OUTCOME_LABELS[attempt.outcome]}
+                  {attempt.detail && <span className="text-slate-500"> · {attempt.detail}</span>}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,72 @@
+import React, { useState } from 'react';
+import { FileType } from 'lucide-react';
+import { FileNameSettings as Settings, FileSystemProfile } from '../types';
+import { FILE_NAME_TOKENS, getFileNameSettings, renderFileName, saveFileNameSettings } from '../services/fileNaming';
+
+const FILE_SYSTEM_LABELS: Record<FileSystemProfile, string> = {
+  universal: 'Any (safest)',
+  windows: 'Windows',
+  mac: 'macOS',
+  linux: 'Linux'
+};
+
+// Sample used for the live preview
+const PREVIEW_CONTEXT = {
+  id: '7301234567890123456',
+  title: 'Sunset timelapse 🌅 東京',
+  author: 'creator.name',
+  date: '2024-05-17',
+  index: '001',
+  source: 'Pasted'
+};
+
+export const FileNameSettings: React.FC = () => {
+  const [settings, setSettings] = useState<Settings>(() => getFileNameSettings());
+
+  const update = (next: Partial<Settings>) => {
+    const merged = { ...settings, ...next };
+    setSettings(merged);
+    saveFileNameSettings(merged);
+  };
+
+  return (
+    <div className="bg-slate-800/50 p-6 rounded-2xl border border-slate-700 shadow-xl backdrop-blur-sm mb-8">
+      <h2 className="text-xl font-semibold text-white flex items-center gap-2 mb-4">
+        <FileType className="w-5 h-5 text-cyan-400" />
+        File Names
+      </h2>
+
+      <div className="grid grid-cols-3 gap-4 mb-3">
+        <label className="col-span-2 text-xs text-slate-400">
+          Template
+          <input
+            value={settings.template}
+            onChange={(e) => update({ template: e.target.value })}
+            placeholder="{author}/{date}_{id}_{title}"
+            className="mt-1 w-full bg-slate-900/80 border border-slate-700 rounded-lg px-3 py-2 text-slate-200 text-sm font-mono focus:ring-2 focus:ring-cyan-500 focus:border-transparent outline-none placeholder-slate-600"
+          />
+        </label>
+        <label className="text-xs text-slate-400">
+          File system
+          <select
+            value={settings.fileSystem}
+            onChange={(e) => update({ fileSystem: e.target.value as FileSystemProfile })}
+            className="mt-1 w-full bg-slate-900/80 border border-slate-700 rounded-lg px-3 py-2 text-slate-200 text-sm focus:ring-2 focus:ring-cyan-500 focus:border-transparent outline-none"
+          >
+            {(Object.keys(FILE_SYSTEM_LABELS) as FileSystemProfile[]).map(fs => (
+              <option key={fs} value={fs}>{FILE_SYSTEM_LABELS[fs]}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <p className="text-xs text-slate-500 mb-1">
+        Tokens: {FILE_NAME_TOKENS.map(t => <code key={t} className="mr-1.5 text-slate-400">{`{${t}}`}</code>)}
+        · Use <code className="text-slate-400">/</code> for sub folders. Clashing names get a " (2)" suffix.
+      </p>
+      <p className="text-xs text-slate-500">
+        Preview: <span className="font-mono text-cyan-400 break-all">{renderFileName(PREVIEW_CONTEXT, 'mp4', settings)}</span>
+      </p>
+    </div>
+  );
+};
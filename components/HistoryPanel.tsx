@@ -0,0 +1,138 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { History, Search, FileDown, FileUp, Trash2, AlertCircle } from 'lucide-react';
+import saveAs from 'file-saver';
+import { HistoryEntry } from '../types';
+import { downloadHistory, historyToJson, matchesHistorySearch, parseHistoryJson } from '../services/historyService';
+import { QUALITY_LABELS } from '../services/downloadService';
+
+// Rendering thousands of rows at once makes the panel sluggish
+const MAX_ROWS_SHOWN = 200;
+
+export const HistoryPanel: React.FC = () => {
+  const [entries, setEntries] = useState<HistoryEntry[]>(() => downloadHistory.getEntries());
+  const [query, setQuery] = useState('');
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => downloadHistory.subscribe(() => setEntries(downloadHistory.getEntries())), []);
+
+  const matches = entries.filter(entry => matchesHistorySearch(entry, query));
+
+  const handleExport = () => {
+    const stamp = new Date().toISOString().slice(0, 10);
+    saveAs(new Blob([historyToJson(entries)], { type: 'application/json' }), `tokbatch_history_${stamp}.json`);
+  };
+
+  const handleImport = async (file?: File) => {
+    if (!file) return;
+    try {
+      const added = downloadHistory.importEntries(parseHistoryJson(await file.text()));
+      setMessage({ text: `Imported ${added} new or updated entries.`, isError: false });
+    } catch (err) {
+      console.error('Failed to import history:', err);
+      setMessage({ text: 'Could not read this history file.', isError: true });
+    }
+  };
+
+  const handleClear = async () => {
+    if (!confirm(`Forget all ${entries.length} downloaded videos? Skipping already downloaded links will stop working for them.`)) return;
+    try {
+      await downloadHistory.clear();
+    } catch (err) {
+      console.error('Failed to clear history:', err);
+    }
+  };
+
+  return (
+    <div className="bg-slate-800/50 p-6 rounded-2xl border border-slate-700 shadow-xl backdrop-blur-sm mb-8">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-semibold text-white flex items-center gap-2">
+          <History className="w-5 h-5 text-cyan-400" />
+          Download History
+          <span className="text-sm font-normal text-slate-500">({entries.length})</span>
+        </h2>
+        <div className="flex items-center gap-3">
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="text-xs flex items-center gap-1 text-slate-400 hover:text-white transition-colors"
+          >
+            <FileUp className="w-3 h-3" />
+            Import
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={(e) => {
+              handleImport(e.target.files?.[0]);
+              e.target.value = '';
+            }}
+          />
+          <button
+            onClick={handleExport}
+            disabled={entries.length === 0}
+            className="text-xs flex items-center gap-1 text-slate-400 hover:text-white transition-colors disabled:opacity-50"
+          >
+            <FileDown className="w-3 h-3" />
+            Export
+          </button>
+          <button
+            onClick={handleClear}
+            disabled={entries.length === 0}
+            className="text-xs flex items-center gap-1 text-slate-400 hover:text-red-400 transition-colors disabled:opacity-50"
+          >
+            <Trash2 className="w-3 h-3" />
+            Clear
+          </button>
+        </div>
+      </div>
+
+      {message && (
+        <p className={`text-xs mb-3 flex items-center gap-1 ${message.isError ? 'text-red-400' : 'text-green-400'}`}>
+          {message.isError && <AlertCircle className="w-3 h-3" />}
+          {message.text}
+        </p>
+      )}
+
+      <div className="flex items-center gap-2 bg-slate-900/80 border border-slate-700 rounded-lg px-3 mb-3">
+        <Search className="w-4 h-4 text-slate-500" />
+        <input
+          type="text"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search by title, @author, video ID or file name"
+          className="flex-1 bg-transparent py-2 text-sm text-slate-200 outline-none placeholder-slate-600"
+        />
+      </div>
+
+      {entries.length === 0 ? (
+        <p className="text-xs text-slate-500">Nothing downloaded yet. Saved videos are remembered here across sessions.</p>
+      ) : (
+        <div className="space-y-1 max-h-80 overflow-y-auto">
+          {matches.slice(0, MAX_ROWS_SHOWN).map(entry => (
+            <div key={entry.videoId} className="flex items-center gap-3 text-xs bg-slate-900/60 border border-slate-700/50 rounded-lg px-3 py-2">
+              <div className="flex-1 min-w-0">
+                <a href={entry.url} target="_blank" rel="noreferrer" className="block truncate text-slate-200 hover:text-cyan-400">
+                  {entry.title || entry.videoId}
+                </a>
+                <div className="truncate text-slate-500 font-mono">
+                  {entry.author && `@${entry.author} · `}
+                  {entry.fileName || entry.videoId}
+                </div>
+              </div>
+              <span className="text-slate-500 whitespace-nowrap">
+                {entry.mediaType === 'audio' ? 'Audio' : entry.quality ? QUALITY_LABELS[entry.quality] : 'Video'}
+              </span>
+              <span className="text-slate-500 whitespace-nowrap">{new Date(entry.downloadedAt).toLocaleDateString()}</span>
+            </div>
+          ))}
+          {matches.length === 0 && <p className="text-xs text-slate-500">No downloads match "{query}".</p>}
+          {matches.length > MAX_ROWS_SHOWN && (
+            <p className="text-xs text-slate-600">…and {matches.length - MAX_ROWS_SHOWN} more, refine the search to see them</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
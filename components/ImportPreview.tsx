@@ -0,0 +1,74 @@
+import React, { useState } from 'react';
+import { FileUp, Loader2, X } from 'lucide-react';
+import { ImportSection } from '../types';
+
+interface ImportPreviewProps {
+  sections: ImportSection[];
+  isAdding: boolean;
+  onConfirm: (sections: ImportSection[]) => void;
+  onCancel: () => void;
+}
+
+// Browsing history is usually huge and rarely wanted in full, so it starts unticked
+const isSelectedByDefault = (section: ImportSection) => section.label !== 'Video Browsing History';
+
+export const ImportPreview: React.FC<ImportPreviewProps> = ({ sections, isAdding, onConfirm, onCancel }) => {
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(
+    () => new Set(sections.filter(isSelectedByDefault).map(s => s.id))
+  );
+
+  const toggle = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const selected = sections.filter(s => selectedIds.has(s.id));
+  const selectedCount = selected.reduce((sum, s) => sum + s.links.length, 0);
+
+  return (
+    <div className="mt-4 bg-slate-900/60 border border-slate-700 rounded-xl p-4">
+      <div className="flex justify-between items-center mb-3">
+        <h3 className="text-sm font-semibold text-white flex items-center gap-2">
+          <FileUp className="w-4 h-4 text-cyan-400" />
+          Import Preview
+        </h3>
+        <button onClick={onCancel} className="text-slate-500 hover:text-white transition-colors" title="Discard import">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="space-y-1 mb-4">
+        {sections.map(section => (
+          <label key={section.id} className="flex items-center gap-3 text-sm text-slate-300 cursor-pointer hover:bg-slate-800/60 rounded-lg px-2 py-1.5">
+            <input
+              type="checkbox"
+              checked={selectedIds.has(section.id)}
+              onChange={() => toggle(section.id)}
+              className="accent-cyan-500"
+            />
+            <span className="flex-1 min-w-0 truncate">
+              {section.label}
+              {section.label !== section.fileName && <span className="ml-2 text-xs text-slate-500">{section.fileName}</span>}
+            </span>
+            <span className="text-xs font-mono text-slate-400">{section.links.length} links</span>
+          </label>
+        ))}
+      </div>
+
+      <div className="flex justify-end">
+        <button
+          onClick={() => onConfirm(selected)}
+          disabled={selectedCount === 0 || isAdding}
+          className="bg-cyan-500 hover:bg-cyan-400 text-slate-900 font-bold py-2 px-4 rounded-lg text-sm transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+        >
+          {isAdding && <Loader2 className="w-4 h-4 animate-spin" />}
+          Add {selectedCount} links
+        </button>
+      </div>
+    </div>
+  );
+};
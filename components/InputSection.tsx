@@ -1,34 +1,93 @@
-import React, { useState } from 'react';
-import { Plus, ClipboardPaste, AlertCircle } from 'lucide-react';
+import React, { useRef, useState } from 'react';
+import { Plus, ClipboardPaste, AlertCircle, Loader2, CheckCircle2, FileUp, Link, UserRound } from 'lucide-react';
+import { ImportSection, LinkIntakeReport, ProfilePost } from '../types';
+import { parseImportFiles } from '../services/importService';
+import { readClipboardText } from '../services/watchService';
+import { ImportPreview } from './ImportPreview';
+import { ProfileImport } from './ProfileImport';
 
 interface InputSectionProps {
-  onAddLinks: (links: string[]) => void;
+  onAddLinks: (lines: string[], source?: string) => Promise<LinkIntakeReport>;
+  onScanProfile: (username: string, onPage: (posts: ProfilePost[]) => void, signal: AbortSignal) => Promise<ProfilePost[]>;
+  skipDownloaded: boolean;
+  onSkipDownloadedChange: (skip: boolean) => void;
 }
 
-export const InputSection: React.FC<InputSectionProps> = ({ onAddLinks }) => {
+type InputMode = 'links' | 'profile';
+
+// Longer rejection lists are cut off to keep the card compact
+const MAX_REJECTED_SHOWN = 8;
+
+export const InputSection: React.FC<InputSectionProps> = ({ onAddLinks, onScanProfile, skipDownloaded, onSkipDownloadedChange }) => {
+  const [mode, setMode] = useState<InputMode>('links');
   const [inputVal, setInputVal] = useState('');
   const [pasteError, setPasteError] = useState<string | null>(null);
+  const [isAdding, setIsAdding] = useState(false);
+  const [report, setReport] = useState<LinkIntakeReport | null>(null);
+  const [importSections, setImportSections] = useState<ImportSection[] | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleAdd = async () => {
+    if (!inputVal.trim() || isAdding) return;
+
+    // One entry per line; parsing and validation happen in the intake
+    const lines = inputVal.split(/\n+/);
 
-  const handleAdd = () => {
-    if (!inputVal.trim()) return;
-    
-    // Split by new lines or spaces and filter empty strings
-    const links = inputVal
-      .split(/[\n\s]+/)
-      .map(l => l.trim())
-      .filter(l => l.length > 0 && l.includes('tiktok.com'));
-
-    if (links.length > 0) {
-      onAddLinks(links);
+    setIsAdding(true);
+    try {
+      const result = await onAddLinks(lines, 'Pasted');
+      setReport(result);
       setInputVal('');
       setPasteError(null);
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const handleFiles = async (files: File[]) => {
+    if (files.length === 0) return;
+    try {
+      setPasteError(null);
+      const sections = await parseImportFiles(files);
+      if (sections.length === 0) {
+        setPasteError("No TikTok links found in the selected files.");
+        return;
+      }
+      setImportSections(sections);
+    } catch (err) {
+      console.error('Failed to read import files: ', err);
+      setPasteError("Could not read the selected files.");
     }
   };
 
+  // Each section is added separately so its tasks remember where they came from
+  const handleImportConfirm = async (sections: ImportSection[]) => {
+    setIsAdding(true);
+    try {
+      const combined: LinkIntakeReport = { added: 0, rejected: [] };
+      for (const section of sections) {
+        const result = await onAddLinks(section.links, section.label);
+        combined.added += result.added;
+        combined.rejected.push(...result.rejected);
+      }
+      setReport(combined);
+      setImportSections(null);
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    handleFiles(Array.from(e.dataTransfer.files));
+  };
+
   const handlePaste = async () => {
     try {
       setPasteError(null);
-      const text = await navigator.clipboard.readText();
+      const text = await readClipboardText();
       setInputVal(text);
     } catch (err) {
       console.error('Failed to read clipboard contents: ', err);
@@ -38,46 +97,138 @@ export const InputSection: React.FC<InputSectionProps> = ({ onAddLinks }) => {
   };
 
   return (
-    <div className="bg-slate-800/50 p-6 rounded-2xl border border-slate-700 shadow-xl backdrop-blur-sm mb-8">
+    <div
+      className={`bg-slate-800/50 p-6 rounded-2xl border shadow-xl backdrop-blur-sm mb-8 transition-colors ${isDragging ? 'border-cyan-500' : 'border-slate-700'}`}
+      onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+      onDragLeave={() => setIsDragging(false)}
+      onDrop={handleDrop}
+    >
       <div className="flex justify-between items-center mb-4">
-        <h2 className="text-xl font-semibold text-white flex items-center gap-2">
-          <Plus className="w-5 h-5 text-cyan-400" />
-          Add Links
-        </h2>
-        <div className="flex items-center gap-2">
-          {pasteError && (
-            <span className="text-xs text-red-400 flex items-center gap-1 animate-pulse">
-              <AlertCircle className="w-3 h-3" />
-              {pasteError}
+        <div className="flex items-center gap-3">
+          <h2 className="text-xl font-semibold text-white flex items-center gap-2">
+            <Plus className="w-5 h-5 text-cyan-400" />
+            Add Links
+          </h2>
+          <div className="flex bg-slate-900 rounded-lg p-0.5 text-xs">
+            {([['links', 'Links', Link], ['profile', 'Profile', UserRound]] as const).map(([value, label, Icon]) => (
+              <button
+                key={value}
+                onClick={() => setMode(value)}
+                className={`flex items-center gap-1 px-2 py-1 rounded-md transition-colors ${mode === value ? 'bg-slate-700 text-white' : 'text-slate-500 hover:text-slate-300'}`}
+              >
+                <Icon className="w-3 h-3" />
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+        {mode === 'links' && (
+          <div className="flex items-center gap-2">
+            {pasteError && (
+              <span className="text-xs text-red-400 flex items-center gap-1 animate-pulse">
+                <AlertCircle className="w-3 h-3" />
+                {pasteError}
+              </span>
+            )}
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="text-xs flex items-center gap-1 text-slate-400 hover:text-white transition-colors"
+            >
+              <FileUp className="w-3 h-3" />
+              Import file
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              multiple
+              accept=".txt,.csv,.json,text/plain,text/csv,application/json"
+              className="hidden"
+              onChange={(e) => {
+                handleFiles(Array.from(e.target.files || []));
+                e.target.value = '';
+              }}
+            />
+            <button 
+              onClick={handlePaste}
+              className="text-xs flex items-center gap-1 text-slate-400 hover:text-white transition-colors"
+            >
+              <ClipboardPaste className="w-3 h-3" />
+              Paste from clipboard
+            </button>
+          </div>
+        )}
+      </div>
+
+      {mode === 'profile' ? (
+        <ProfileImport onScanProfile={onScanProfile} onAddLinks={onAddLinks} onAdded={setReport} />
+      ) : (
+        <textarea
+          className="w-full h-32 bg-slate-900/80 border border-slate-700 rounded-xl p-4 text-slate-200 text-sm focus:ring-2 focus:ring-cyan-500 focus:border-transparent outline-none resize-none font-mono placeholder-slate-600 transition-all"
+          placeholder={`Paste TikTok links here (one per line), or drop TXT/CSV files or a TikTok data export (user_data.json)...\nExample:\nhttps://www.tiktok.com/@user/video/123456\nhttps://vm.tiktok.com/AbCdEf/`}
+          value={inputVal}
+          onChange={(e) => setInputVal(e.target.value)}
+        />
+      )}
+
+      {importSections && (
+        <ImportPreview
+          sections={importSections}
+          isAdding={isAdding}
+          onConfirm={handleImportConfirm}
+          onCancel={() => setImportSections(null)}
+        />
+      )}
+
+      <label className="mt-3 flex items-center gap-2 text-xs text-slate-400 cursor-pointer select-none w-fit">
+        <input
+          type="checkbox"
+          checked={skipDownloaded}
+          onChange={(e) => onSkipDownloadedChange(e.target.checked)}
+          className="accent-cyan-500"
+        />
+        Skip videos already downloaded in earlier sessions
+      </label>
+
+      {report && (
+        <div className="mt-3 text-xs space-y-1">
+          <div className="flex items-center gap-2">
+            <span className="text-green-400 flex items-center gap-1">
+              <CheckCircle2 className="w-3 h-3" />
+              Added {report.added}
             </span>
+            {report.rejected.length > 0 && (
+              <span className="text-orange-400">
+                · Skipped {report.rejected.length} ({report.rejected.filter(r => r.duplicate).length} duplicates)
+              </span>
+            )}
+            <button onClick={() => setReport(null)} className="ml-auto text-slate-500 hover:text-white transition-colors">
+              Dismiss
+            </button>
+          </div>
+          {report.rejected.slice(0, MAX_REJECTED_SHOWN).map((r, i) => (
+            <div key={i} className="flex gap-2 text-slate-500 font-mono">
+              <span className={r.duplicate ? 'text-slate-400' : 'text-red-400'}>{r.reason}:</span>
+              <span className="truncate">{r.input}</span>
+            </div>
+          ))}
+          {report.rejected.length > MAX_REJECTED_SHOWN && (
+            <div className="text-slate-600">…and {report.rejected.length - MAX_REJECTED_SHOWN} more</div>
           )}
-          <button 
-            onClick={handlePaste}
-            className="text-xs flex items-center gap-1 text-slate-400 hover:text-white transition-colors"
+        </div>
+      )}
+
+      {mode === 'links' && (
+        <div className="mt-4 flex justify-end">
+          <button
+            onClick={handleAdd}
+            disabled={!inputVal.trim() || isAdding}
+            className="bg-cyan-500 hover:bg-cyan-400 text-slate-900 font-bold py-2 px-6 rounded-lg transition-all transform active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2 shadow-lg shadow-cyan-500/20"
           >
-            <ClipboardPaste className="w-3 h-3" />
-            Paste from clipboard
+            {isAdding ? <Loader2 className="w-5 h-5 animate-spin" /> : <Plus className="w-5 h-5" />}
+            {isAdding ? 'Checking Links...' : 'Add to Queue'}
           </button>
         </div>
-      </div>
-      
-      <textarea
-        className="w-full h-32 bg-slate-900/80 border border-slate-700 rounded-xl p-4 text-slate-200 text-sm focus:ring-2 focus:ring-cyan-500 focus:border-transparent outline-none resize-none font-mono placeholder-slate-600 transition-all"
-        placeholder={`Paste TikTok links here (one per line)...\nExample:\nhttps://www.tiktok.com/@user/video/123456\nhttps://vm.tiktok.com/AbCdEf/`}
-        value={inputVal}
-        onChange={(e) => setInputVal(e.target.value)}
-      />
-
-      <div className="mt-4 flex justify-end">
-        <button
-          onClick={handleAdd}
-          disabled={!inputVal.trim()}
-          className="bg-cyan-500 hover:bg-cyan-400 text-slate-900 font-bold py-2 px-6 rounded-lg transition-all transform active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2 shadow-lg shadow-cyan-500/20"
-        >
-          <Plus className="w-5 h-5" />
-          Add to Queue
-        </button>
-      </div>
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,186 @@
+import React, { useRef, useState } from 'react';
+import { Loader2, Plus, Search, Square, UserRound } from 'lucide-react';
+import { LinkIntakeReport, ProfilePost } from '../types';
+import { filterProfilePosts, parseProfileInput, profileDateRange } from '../services/profileService';
+import { isAbortError } from '../utils/abort';
+
+interface ProfileImportProps {
+  onScanProfile: (username: string, onPage: (posts: ProfilePost[]) => void, signal: AbortSignal) => Promise<ProfilePost[]>;
+  onAddLinks: (lines: string[], source?: string) => Promise<LinkIntakeReport>;
+  onAdded: (report: LinkIntakeReport) => void;
+}
+
+// <input type="date"> works with YYYY-MM-DD in local time
+const toDateInput = (seconds: number) => {
+  const date = new Date(seconds * 1000);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+const fromDateInput = (value: string, endOfDay: boolean) => {
+  if (!value) return undefined;
+  const date = new Date(`${value}T${endOfDay ? '23:59:59' : '00:00:00'}`);
+  return Number.isNaN(date.getTime()) ? undefined : Math.floor(date.getTime() / 1000);
+};
+
+export const ProfileImport: React.FC<ProfileImportProps> = ({ onScanProfile, onAddLinks, onAdded }) => {
+  const [input, setInput] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [scannedUser, setScannedUser] = useState<string | null>(null);
+  const [posts, setPosts] = useState<ProfilePost[]>([]);
+  const [isScanning, setIsScanning] = useState(false);
+  const [isAdding, setIsAdding] = useState(false);
+  const [since, setSince] = useState('');
+  const [until, setUntil] = useState('');
+  const [maxCount, setMaxCount] = useState('');
+  const scanAbort = useRef<AbortController | null>(null);
+
+  const handleScan = async () => {
+    const username = parseProfileInput(input);
+    if (!username) {
+      setError('Enter a @username or a TikTok profile link.');
+      return;
+    }
+
+    const controller = new AbortController();
+    scanAbort.current = controller;
+    setError(null);
+    setPosts([]);
+    setScannedUser(username);
+    setIsScanning(true);
+    try {
+      const found = await onScanProfile(username, setPosts, controller.signal);
+      setPosts(found);
+      if (found.length === 0) setError(`No posts found for @${username}.`);
+    } catch (err: any) {
+      // A cancelled scan keeps the pages fetched so far
+      if (!isAbortError(err)) {
+        console.error('Profile scan failed:', err);
+        setError(err?.message || 'Could not load this profile.');
+      }
+    } finally {
+      setIsScanning(false);
+      scanAbort.current = null;
+    }
+  };
+
+  const range = profileDateRange(posts);
+  const selected = filterProfilePosts(posts, {
+    since: fromDateInput(since, false),
+    until: fromDateInput(until, true),
+    maxCount: parseInt(maxCount, 10) || undefined
+  });
+
+  const handleAdd = async () => {
+    if (selected.length === 0 || isAdding) return;
+    setIsAdding(true);
+    try {
+      // Oldest first, so the queue follows the order the posts were published in
+      const urls = [...selected].reverse().map(p => p.url);
+      onAdded(await onAddLinks(urls, `@${scannedUser}`));
+      setPosts([]);
+      setScannedUser(null);
+      setInput('');
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-2">
+        <div className="flex-1 flex items-center gap-2 bg-slate-900/80 border border-slate-700 rounded-xl px-4 focus-within:ring-2 focus-within:ring-cyan-500">
+          <UserRound className="w-4 h-4 text-slate-500" />
+          <input
+            type="text"
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter' && !isScanning) handleScan(); }}
+            placeholder="@username or https://www.tiktok.com/@username"
+            className="flex-1 bg-transparent py-3 text-sm text-slate-200 font-mono outline-none placeholder-slate-600"
+          />
+        </div>
+        {isScanning ? (
+          <button
+            onClick={() => scanAbort.current?.abort()}
+            className="bg-slate-700 hover:bg-slate-600 text-white font-medium px-4 rounded-lg transition-colors flex items-center gap-2"
+          >
+            <Square className="w-4 h-4" />
+            Stop
+          </button>
+        ) : (
+          <button
+            onClick={handleScan}
+            disabled={!input.trim()}
+            className="bg-slate-700 hover:bg-slate-600 text-white font-medium px-4 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+          >
+            <Search className="w-4 h-4" />
+            Scan
+          </button>
+        )}
+      </div>
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+
+      {scannedUser && posts.length > 0 && (
+        <div className="bg-slate-900/60 border border-slate-700 rounded-xl p-4 space-y-3">
+          <div className="flex items-center gap-2 text-sm">
+            {isScanning && <Loader2 className="w-4 h-4 text-cyan-400 animate-spin" />}
+            <span className="text-white font-medium">@{scannedUser}</span>
+            <span className="text-slate-400">
+              · {posts.length} posts{isScanning ? ' so far' : ''}
+              {range && ` · ${new Date(range.oldest * 1000).toLocaleDateString()} – ${new Date(range.newest * 1000).toLocaleDateString()}`}
+            </span>
+          </div>
+
+          <div className="grid grid-cols-3 gap-3 text-xs">
+            <label className="space-y-1">
+              <span className="text-slate-400">From</span>
+              <input
+                type="date"
+                value={since}
+                min={range ? toDateInput(range.oldest) : undefined}
+                max={range ? toDateInput(range.newest) : undefined}
+                onChange={(e) => setSince(e.target.value)}
+                className="w-full bg-slate-900 border border-slate-700 rounded-lg px-2 py-1.5 text-slate-200"
+              />
+            </label>
+            <label className="space-y-1">
+              <span className="text-slate-400">To</span>
+              <input
+                type="date"
+                value={until}
+                min={range ? toDateInput(range.oldest) : undefined}
+                max={range ? toDateInput(range.newest) : undefined}
+                onChange={(e) => setUntil(e.target.value)}
+                className="w-full bg-slate-900 border border-slate-700 rounded-lg px-2 py-1.5 text-slate-200"
+              />
+            </label>
+            <label className="space-y-1">
+              <span className="text-slate-400">Newest only (max)</span>
+              <input
+                type="number"
+                min={1}
+                value={maxCount}
+                placeholder="All"
+                onChange={(e) => setMaxCount(e.target.value)}
+                className="w-full bg-slate-900 border border-slate-700 rounded-lg px-2 py-1.5 text-slate-200"
+              />
+            </label>
+          </div>
+
+          <div className="flex justify-end">
+            <button
+              onClick={handleAdd}
+              disabled={selected.length === 0 || isAdding || isScanning}
+              className="bg-cyan-500 hover:bg-cyan-400 text-slate-900 font-bold py-2 px-6 rounded-lg transition-all transform active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2 shadow-lg shadow-cyan-500/20"
+            >
+              {isAdding ? <Loader2 className="w-5 h-5 animate-spin" /> : <Plus className="w-5 h-5" />}
+              {isAdding ? 'Adding...' : `Add ${selected.length} of ${posts.length} posts`}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
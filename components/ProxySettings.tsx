@@ -0,0 +1,113 @@
+import React, { useEffect, useState } from 'react';
+import { Server, Plus, Trash2, RotateCcw, AlertCircle } from 'lucide-react';
+import { ProxyStats } from '../types';
+import { proxyManager } from '../services/proxyManager';
+
+const getHealthLabel = (stats: ProxyStats) => {
+  if (stats.trippedUntil && stats.trippedUntil > Date.now()) {
+    return { text: `Paused until ${new Date(stats.trippedUntil).toLocaleTimeString()}`, className: 'text-red-400' };
+  }
+  if (stats.consecutiveFailures > 0) {
+    return { text: `${stats.consecutiveFailures} recent failure${stats.consecutiveFailures > 1 ? 's' : ''}`, className: 'text-orange-400' };
+  }
+  if (stats.successes + stats.failures === 0) {
+    return { text: 'Untested', className: 'text-slate-500' };
+  }
+  return { text: 'Healthy', className: 'text-green-400' };
+};
+
+export const ProxySettings: React.FC = () => {
+  const [stats, setStats] = useState<ProxyStats[]>(() => proxyManager.getStats());
+  const [templateVal, setTemplateVal] = useState('');
+  const [templateError, setTemplateError] = useState<string | null>(null);
+
+  useEffect(() => proxyManager.subscribe(() => setStats(proxyManager.getStats())), []);
+
+  const handleAddTemplate = () => {
+    try {
+      proxyManager.addCustomTemplate(templateVal);
+      setTemplateVal('');
+      setTemplateError(null);
+    } catch (err: any) {
+      setTemplateError(err.message);
+    }
+  };
+
+  return (
+    <div className="bg-slate-800/50 p-6 rounded-2xl border border-slate-700 shadow-xl backdrop-blur-sm mb-8">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-semibold text-white flex items-center gap-2">
+          <Server className="w-5 h-5 text-cyan-400" />
+          Proxy Chain
+        </h2>
+        <button
+          onClick={() => proxyManager.resetStats()}
+          className="text-xs flex items-center gap-1 text-slate-400 hover:text-white transition-colors"
+        >
+          <RotateCcw className="w-3 h-3" />
+          Reset stats
+        </button>
+      </div>
+
+      <div className="space-y-1 mb-4">
+        {stats.map(s => {
+          const attempts = s.successes + s.failures;
+          const health = getHealthLabel(s);
+          return (
+            <div key={s.id} className="flex items-center gap-3 text-xs bg-slate-900/60 border border-slate-700/50 rounded-lg px-3 py-2">
+              <span className="flex-1 min-w-0 truncate text-slate-200" title={s.id}>
+                {s.label}
+                {s.custom && <span className="ml-2 px-1.5 py-0.5 rounded bg-cyan-500/10 text-cyan-400">custom</span>}
+              </span>
+              <span className="w-20 text-right text-slate-400 font-mono">
+                {attempts > 0 ? `${Math.round((s.successes / attempts) * 100)}% of ${attempts}` : '–'}
+              </span>
+              <span className="w-16 text-right text-slate-400 font-mono">
+                {s.avgLatencyMs !== undefined ? `${Math.round(s.avgLatencyMs)} ms` : '–'}
+              </span>
+              <span className={`w-40 text-right ${health.className}`}>{health.text}</span>
+              {s.custom ? (
+                <button
+                  onClick={() => proxyManager.removeCustomTemplate(s.id.replace(/^custom:/, ''))}
+                  className="text-slate-500 hover:text-red-400 transition-colors"
+                  title="Remove proxy"
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              ) : (
+                <span className="w-3.5" />
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex gap-2">
+        <input
+          className="flex-1 bg-slate-900/80 border border-slate-700 rounded-lg px-3 py-2 text-slate-200 text-xs font-mono focus:ring-2 focus:ring-cyan-500 focus:border-transparent outline-none placeholder-slate-600"
+          placeholder="https://proxy.example.com/?url={url}"
+          value={templateVal}
+          onChange={(e) => setTemplateVal(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleAddTemplate()}
+        />
+        <button
+          onClick={handleAddTemplate}
+          disabled={!templateVal.trim()}
+          className="bg-cyan-500 hover:bg-cyan-400 text-slate-900 font-bold py-2 px-4 rounded-lg text-xs transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-1"
+        >
+          <Plus className="w-4 h-4" />
+          Add Proxy
+        </button>
+      </div>
+      <p className="mt-2 text-xs text-slate-500">
+        Use <code className="text-slate-400">{'{url}'}</code> for the encoded target URL or <code className="text-slate-400">{'{rawUrl}'}</code> for the raw one. Custom proxies are tried first.
+      </p>
+      {templateError && (
+        <p className="mt-2 text-xs text-red-400 flex items-center gap-1">
+          <AlertCircle className="w-3 h-3" />
+          {templateError}
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,98 @@
+import React, { useEffect, useState } from 'react';
+import { Gauge } from 'lucide-react';
+import { SchedulerSettings as Settings, SchedulerState } from '../types';
+import { resolveScheduler } from '../services/scheduler';
+
+interface NumberFieldProps {
+  value: number;
+  min: number;
+  max: number;
+  step?: number;
+  onCommit: (value: number) => void;
+}
+
+// Edits a draft and only hands it over (to be clamped) on blur or Enter,
+// so intermediate input like "0" on the way to "0.5" isn't snapped to the minimum
+const NumberField: React.FC<NumberFieldProps> = ({ value, min, max, step, onCommit }) => {
+  const [draft, setDraft] = useState(String(value));
+
+  // Show the clamped value, or a change made elsewhere
+  useEffect(() => setDraft(String(value)), [value]);
+
+  const commit = () => {
+    const parsed = Number(draft);
+    if (draft.trim() === '' || !Number.isFinite(parsed)) {
+      setDraft(String(value));
+      return;
+    }
+    onCommit(parsed);
+    // Clamping may land on the current value, which wouldn't trigger the effect above
+    setDraft(String(value));
+  };
+
+  return (
+    <input
+      type="number"
+      min={min}
+      max={max}
+      step={step}
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => { if (e.key === 'Enter') commit(); }}
+      className="mt-1 w-full bg-slate-900/80 border border-slate-700 rounded-lg px-3 py-2 text-slate-200 text-sm font-mono focus:ring-2 focus:ring-cyan-500 focus:border-transparent outline-none"
+    />
+  );
+};
+
+export const SchedulerSettings: React.FC = () => {
+  const [settings, setSettings] = useState<Settings>(() => resolveScheduler.getSettings());
+  const [state, setState] = useState<SchedulerState>(() => resolveScheduler.getState());
+
+  useEffect(() => resolveScheduler.subscribe(() => {
+    setSettings(resolveScheduler.getSettings());
+    setState(resolveScheduler.getState());
+  }), []);
+
+  const isBackingOff = !!state.backoffUntil && state.backoffUntil > Date.now();
+
+  return (
+    <div className="bg-slate-800/50 p-6 rounded-2xl border border-slate-700 shadow-xl backdrop-blur-sm mb-8">
+      <h2 className="text-xl font-semibold text-white flex items-center gap-2 mb-4">
+        <Gauge className="w-5 h-5 text-cyan-400" />
+        Throughput
+      </h2>
+
+      <div className="grid grid-cols-2 gap-4 mb-3">
+        <label className="text-xs text-slate-400">
+          Parallel requests
+          <NumberField
+            min={1}
+            max={8}
+            value={settings.concurrency}
+            onCommit={(concurrency) => resolveScheduler.updateSettings({ concurrency })}
+          />
+        </label>
+        <label className="text-xs text-slate-400">
+          Max requests per second
+          <NumberField
+            min={0.1}
+            max={10}
+            step={0.1}
+            value={settings.maxRatePerSecond}
+            onCommit={(maxRatePerSecond) => resolveScheduler.updateSettings({ maxRatePerSecond })}
+          />
+        </label>
+      </div>
+
+      <p className="text-xs text-slate-500">
+        Current rate: <span className="font-mono text-slate-300">{state.ratePerSecond.toFixed(2)} req/s</span>
+        {isBackingOff && (
+          <span className="ml-2 text-orange-400">
+            · Rate limited, backing off until {new Date(state.backoffUntil!).toLocaleTimeString()}
+          </span>
+        )}
+      </p>
+    </div>
+  );
+};
@@ -1,6 +1,6 @@
 import React from 'react';
 import { BatchSummary } from '../types';
-import { Sparkles, FolderOpen } from 'lucide-react';
+import { ChartColumn, FolderOpen, Hash, Users } from 'lucide-react';
 
 interface SummaryCardProps {
   summary: BatchSummary;
@@ -8,27 +8,47 @@ interface SummaryCardProps {
 
 export const SummaryCard: React.FC<SummaryCardProps> = ({ summary }) => {
   return (
-    <div className="bg-gradient-to-r from-purple-900/40 to-slate-900/40 border border-purple-500/30 rounded-xl p-6 mb-8 backdrop-blur-md">
+    <div className="bg-gradient-to-r from-purple-900/40 to-slate-900/40 border border-purple-500/30 rounded-xl p-6 mt-8 backdrop-blur-md">
       <div className="flex items-start gap-4">
         <div className="p-3 bg-purple-500/20 rounded-lg text-purple-300">
-          <Sparkles className="w-6 h-6" />
+          <ChartColumn className="w-6 h-6" />
         </div>
-        <div>
-          <h3 className="text-lg font-bold text-white mb-1 flex items-center gap-2">
-            AI Batch Analysis
-            <span className="text-xs font-normal px-2 py-0.5 rounded-full bg-purple-500/20 text-purple-300 border border-purple-500/20">
-              Gemini 2.5 Flash
-            </span>
+        <div className="min-w-0">
+          <h3 className="text-lg font-bold text-white mb-1">
+            Batch Summary
           </h3>
           <p className="text-slate-300 text-sm mb-3">
             {summary.description}
           </p>
+
+          {summary.topAuthors.length > 0 && (
+            <div className="flex flex-wrap items-center gap-1.5 text-xs mb-2">
+              <Users className="w-3.5 h-3.5 text-slate-500" />
+              {summary.topAuthors.map(author => (
+                <span key={author.name} className="px-2 py-0.5 rounded-full bg-slate-800 text-slate-300 border border-slate-700">
+                  @{author.name} <span className="text-slate-500">{author.count}</span>
+                </span>
+              ))}
+            </div>
+          )}
+
+          {summary.topHashtags.length > 0 && (
+            <div className="flex flex-wrap items-center gap-1.5 text-xs mb-3">
+              <Hash className="w-3.5 h-3.5 text-slate-500" />
+              {summary.topHashtags.map(hashtag => (
+                <span key={hashtag.tag} className="px-2 py-0.5 rounded-full bg-purple-500/10 text-purple-300 border border-purple-500/20">
+                  #{hashtag.tag} <span className="text-purple-400/60">{hashtag.count}</span>
+                </span>
+              ))}
+            </div>
+          )}
+
           <div className="flex items-center gap-3 text-sm font-mono text-cyan-400 bg-black/30 px-3 py-2 rounded-lg inline-block border border-slate-700">
             <FolderOpen className="w-4 h-4" />
-            <span>Suggested Folder: /{summary.folderName}</span>
+            <span>Folder: /{summary.folderName}</span>
           </div>
         </div>
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,77 @@
+import React from 'react';
+import { VideoTask } from '../types';
+import { formatBytes, formatClock, formatCount } from '../utils/format';
+
+interface TaskDetailsProps {
+  task: VideoTask;
+}
+
+const DetailRow: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <>
+    <dt className="text-slate-500">{label}</dt>
+    <dd className="text-slate-300 truncate">{children}</dd>
+  </>
+);
+
+// Expanded view with everything the resolver returned for a task
+export const TaskDetails: React.FC<TaskDetailsProps> = ({ task }) => {
+  const meta = task.metadata;
+  const stats = meta?.stats;
+  const counts = stats
+    ? ([
+        ['Plays', stats.plays],
+        ['Likes', stats.likes],
+        ['Comments', stats.comments],
+        ['Shares', stats.shares],
+        ['Saves', stats.saves]
+      ] as [string, number | undefined][]).filter(([, value]) => value !== undefined)
+    : [];
+
+  return (
+    <div className="border-t border-slate-700/60 px-4 py-3 text-xs">
+      <dl className="grid grid-cols-[7rem_1fr] gap-x-4 gap-y-1">
+        {meta?.author && (
+          <DetailRow label="Author">
+            {meta.author.nickname}
+            {meta.author.uniqueId && <span className="ml-1 text-slate-500">@{meta.author.uniqueId}</span>}
+          </DetailRow>
+        )}
+        {task.videoId && <DetailRow label="Video ID"><span className="font-mono">{task.videoId}</span></DetailRow>}
+        {meta?.duration !== undefined && <DetailRow label="Duration">{formatClock(meta.duration)}</DetailRow>}
+        {meta?.createTime != null && meta.createTime > 0 && <DetailRow label="Uploaded">{new Date(meta.createTime * 1000).toLocaleString()}</DetailRow>}
+        {task.postType === 'slideshow' && <DetailRow label="Post">Slideshow · {task.images?.length || 0} images</DetailRow>}
+        {meta?.region && <DetailRow label="Region">{meta.region}</DetailRow>}
+        {meta?.music?.title && (
+          <DetailRow label="Sound">
+            {meta.music.title}
+            {meta.music.author && <span className="text-slate-500"> — {meta.music.author}</span>}
+          </DetailRow>
+        )}
+        {task.fileName && <DetailRow label="File"><span className="font-mono">{task.fileName}</span></DetailRow>}
+        {task.fileSize !== undefined && <DetailRow label="Size">{formatBytes(task.fileSize)}</DetailRow>}
+        {task.checksums && task.checksums.length > 0 && (
+          <DetailRow label="SHA-256">
+            {task.checksums.map(c => (
+              <div key={c.path} className="font-mono truncate" title={`${c.path}: ${c.sha256}`}>
+                {task.checksums!.length > 1 && <span className="text-slate-500">{c.path.split('/').pop()} </span>}
+                {c.sha256}
+              </div>
+            ))}
+          </DetailRow>
+        )}
+        {task.source && <DetailRow label="Source">{task.source}</DetailRow>}
+        <DetailRow label="URL"><a href={task.url} target="_blank" rel="noreferrer" className="text-cyan-400 hover:underline">{task.url}</a></DetailRow>
+      </dl>
+
+      {counts.length > 0 && (
+        <div className="flex flex-wrap gap-3 mt-3">
+          {counts.map(([label, value]) => (
+            <span key={label} className="px-2 py-1 rounded-md bg-slate-900/60 border border-slate-700/50 text-slate-400">
+              {label} <span className="text-slate-200 font-mono">{formatCount(value!)}</span>
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,17 +1,43 @@
 import React, { useState } from 'react';
-import { VideoTask, TaskStatus } from '../types';
-import { Loader2, CheckCircle2, XCircle, FileVideo, Download, RefreshCw } from 'lucide-react';
+import { VideoTask, TaskStatus, VideoQuality, MediaType } from '../types';
+import { Loader2, CheckCircle2, XCircle, FileVideo, Download, RefreshCw, Square, ChevronDown, Music, Film, Images } from 'lucide-react';
+import { formatBytes, formatClock, formatDuration } from '../utils/format';
+import { TaskDetails } from './TaskDetails';
+import { AttemptLog } from './AttemptLog';
+import { QUALITY_LABELS, effectiveMediaType, isSlideshow } from '../services/downloadService';
+import { ERROR_POLICIES, isRetryableKind } from '../services/errors';
 
 interface TaskItemProps {
   task: VideoTask;
   onRemove: (id: string) => void;
   onDownload: (task: VideoTask) => void;
   onRetry: (id: string) => void;
+  onCancel: (id: string) => void;
+  defaultQuality: VideoQuality;
+  onSetQuality: (id: string, quality?: VideoQuality) => void;
+  defaultMediaType: MediaType;
+  onSetMediaType: (id: string, mediaType?: MediaType) => void;
 }
 
-export const TaskItem: React.FC<TaskItemProps> = ({ task, onRemove, onDownload, onRetry }) => {
+export const TaskItem: React.FC<TaskItemProps> = ({
+  task, onRemove, onDownload, onRetry, onCancel, defaultQuality, onSetQuality, defaultMediaType, onSetMediaType
+}) => {
   const [isDownloading, setIsDownloading] = useState(false);
   const [isRetrying, setIsRetrying] = useState(false);
+  const [isExpanded, setIsExpanded] = useState(false);
+  const meta = task.metadata;
+  const mediaType = effectiveMediaType(task, { quality: defaultQuality, mediaType: defaultMediaType });
+  const hasSoundtrack = !!meta?.music?.url;
+  const images = isSlideshow(task) ? task.images! : [];
+  const errorPolicy = task.status === TaskStatus.ERROR && task.errorKind ? ERROR_POLICIES[task.errorKind] : undefined;
+  // Only a handful of thumbnails fit; the rest are summarised as "+N"
+  const STRIP_SIZE = 6;
+
+  // Flip this task between video and audio; matching the batch default clears the override
+  const toggleMediaType = () => {
+    const next: MediaType = mediaType === 'audio' ? 'video' : 'audio';
+    onSetMediaType(task.id, next === defaultMediaType ? undefined : next);
+  };
 
   const handleDownloadClick = async () => {
     setIsDownloading(true);
@@ -38,90 +64,213 @@ export const TaskItem: React.FC<TaskItemProps> = ({ task, onRemove, onDownload,
     }
   };
 
+  const transfer = task.transfer;
+  const transferPercent = transfer?.totalBytes
+    ? Math.min(100, Math.round((transfer.receivedBytes / transfer.totalBytes) * 100))
+    : undefined;
+  // Resolving has no measurable progress, so show an indeterminate bar instead of a fake value
+  const isIndeterminate = !transfer && task.status === TaskStatus.DOWNLOADING;
+
+  const getTransferLabel = () => {
+    if (!transfer) return null;
+    const parts = [
+      transferPercent !== undefined
+        ? `${transferPercent}% of ${formatBytes(transfer.totalBytes!)}`
+        : formatBytes(transfer.receivedBytes),
+      `${formatBytes(transfer.bytesPerSecond)}/s`
+    ];
+    if (transfer.etaSeconds !== undefined) parts.push(`${formatDuration(transfer.etaSeconds)} left`);
+    return parts.join(' · ');
+  };
+
   const getProgressBarColor = () => {
+    if (transfer) return 'bg-cyan-500';
     if (task.status === TaskStatus.ERROR) return 'bg-red-500';
     if (task.status === TaskStatus.COMPLETED) return 'bg-green-500';
     return 'bg-cyan-500';
   };
 
   return (
-    <div className="bg-slate-800 border border-slate-700 rounded-xl p-4 mb-3 flex items-center gap-4 hover:border-slate-600 transition-colors group">
-      {/* Thumbnail / Icon */}
-      <div className="w-16 h-16 bg-slate-900 rounded-lg flex-shrink-0 flex items-center justify-center overflow-hidden border border-slate-700/50">
-        {task.thumbnail ? (
-          <img src={task.thumbnail} alt="thumb" className="w-full h-full object-cover opacity-80" />
-        ) : (
-          <div className="text-slate-600">
-            <FileVideo className="w-8 h-8" />
+    <div className="bg-slate-800 border border-slate-700 rounded-xl mb-3 hover:border-slate-600 transition-colors group">
+      <div className="p-4 flex items-center gap-4">
+        {/* Thumbnail / Icon */}
+        <div className="w-16 h-16 bg-slate-900 rounded-lg flex-shrink-0 flex items-center justify-center overflow-hidden border border-slate-700/50">
+          {task.thumbnail ? (
+            <img src={task.thumbnail} alt="thumb" className="w-full h-full object-cover opacity-80" />
+          ) : (
+            <div className="text-slate-600">
+              <FileVideo className="w-8 h-8" />
+            </div>
+          )}
+        </div>
+
+        {/* Info & Progress */}
+        <div className="flex-1 min-w-0">
+          <div className="flex justify-between items-start mb-1">
+            <h3 className="text-sm font-medium text-slate-200 truncate pr-4">
+              {task.title || task.url}
+            </h3>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => setIsExpanded(v => !v)}
+                className="text-slate-500 hover:text-white transition-colors"
+                title={isExpanded ? "Hide details" : "Show details"}
+              >
+                <ChevronDown className={`w-4 h-4 transition-transform ${isExpanded ? 'rotate-180' : ''}`} />
+              </button>
+              <button 
+                onClick={() => onRemove(task.id)}
+                className="text-slate-500 hover:text-red-400 transition-colors"
+              >
+                <XCircle className="w-4 h-4" />
+              </button>
+            </div>
           </div>
-        )}
-      </div>
 
-      {/* Info & Progress */}
-      <div className="flex-1 min-w-0">
-        <div className="flex justify-between items-start mb-1">
-          <h3 className="text-sm font-medium text-slate-200 truncate pr-4">
-            {task.title || task.url}
-          </h3>
-          <button 
-            onClick={() => onRemove(task.id)}
-            className="text-slate-500 hover:text-red-400 transition-colors"
-          >
-            <XCircle className="w-4 h-4" />
-          </button>
-        </div>
+          {meta && (
+            <div className="flex items-center gap-2 text-xs text-slate-500 mb-1 truncate">
+              {meta.author?.uniqueId && <span className="text-slate-400">@{meta.author.uniqueId}</span>}
+              {meta.duration !== undefined && <span>· {formatClock(meta.duration)}</span>}
+              {meta.createTime != null && meta.createTime > 0 && <span>· {new Date(meta.createTime * 1000).toLocaleDateString()}</span>}
+            </div>
+          )}
 
-        <div className="flex items-center gap-2 text-xs text-slate-400 mb-2">
-           <span className={task.status === TaskStatus.ERROR ? "text-red-400" : ""}>
-             {task.errorMessage || task.status}
-           </span>
-        </div>
+          <div className="flex items-center gap-2 text-xs text-slate-400 mb-2">
+             <span className={task.status === TaskStatus.ERROR ? "text-red-400" : ""}>
+               {errorPolicy && <span className="font-medium">{errorPolicy.label}: </span>}
+               {task.errorMessage || task.status}
+             </span>
+             {transfer && (
+               <span className="text-cyan-400 font-mono">· {getTransferLabel()}</span>
+             )}
+             {task.resumable && task.status === TaskStatus.IDLE && (
+               <span className="text-amber-400">· Interrupted, will resume</span>
+             )}
+          </div>
+          {errorPolicy && (
+            <p className="text-[11px] text-slate-500 -mt-1 mb-2">{errorPolicy.explanation}</p>
+          )}
+
+          {/* Slideshow: image count and a strip of the first few images */}
+          {images.length > 0 && (
+            <div className={`flex items-center gap-1.5 mb-2 ${mediaType === 'audio' ? 'opacity-40' : ''}`}>
+              <span className="flex items-center gap-1 text-[11px] text-slate-400 px-1.5 py-0.5 rounded border border-slate-700">
+                <Images className="w-3 h-3" />
+                {images.length} {images.length === 1 ? 'image' : 'images'}
+              </span>
+              {images.slice(0, STRIP_SIZE).map((url, index) => (
+                <img
+                  key={index}
+                  src={url}
+                  alt={`image ${index + 1}`}
+                  loading="lazy"
+                  className="w-6 h-8 object-cover rounded-sm border border-slate-700/50"
+                />
+              ))}
+              {images.length > STRIP_SIZE && (
+                <span className="text-[11px] text-slate-500">+{images.length - STRIP_SIZE}</span>
+              )}
+            </div>
+          )}
+
+          {/* Variants: click to override the batch default, click again to reset */}
+          {mediaType === 'video' && task.variants && task.variants.length > 1 && (
+            <div className="flex flex-wrap items-center gap-1.5 text-[11px] mb-2">
+              {task.variants.map(variant => {
+                const isActive = (task.quality || defaultQuality) === variant.quality;
+                return (
+                  <button
+                    key={variant.quality}
+                    onClick={() => onSetQuality(task.id, task.quality === variant.quality ? undefined : variant.quality)}
+                    className={`px-1.5 py-0.5 rounded border transition-colors ${isActive
+                      ? 'border-cyan-500/50 bg-cyan-500/10 text-cyan-300'
+                      : 'border-slate-700 text-slate-500 hover:text-slate-300'}`}
+                    title={task.quality === variant.quality ? 'Override active, click to use batch default' : 'Use for this video'}
+                  >
+                    {QUALITY_LABELS[variant.quality]}
+                    {variant.size ? ` · ${formatBytes(variant.size)}` : ''}
+                  </button>
+                );
+              })}
+              {task.savedQuality && <span className="text-slate-500">Saved: {QUALITY_LABELS[task.savedQuality]}</span>}
+            </div>
+          )}
 
-        {/* Progress Bar */}
-        <div className="w-full h-1.5 bg-slate-700 rounded-full overflow-hidden">
-          <div 
-            className={`h-full transition-all duration-300 ease-out ${getProgressBarColor()}`}
-            style={{ width: `${task.progress}%` }}
-          />
+          {/* Progress Bar */}
+          <div className="w-full h-1.5 bg-slate-700 rounded-full overflow-hidden">
+            <div 
+              className={`h-full transition-all duration-300 ease-out ${getProgressBarColor()} ${isIndeterminate ? 'animate-pulse' : ''}`}
+              style={{ width: `${isIndeterminate ? 100 : transfer ? (transferPercent ?? 100) : task.progress}%` }}
+            />
+          </div>
         </div>
-      </div>
 
-      {/* Action Buttons */}
-      <div className="flex items-center gap-2">
-        
-        {/* Retry Button (Visible on Error) */}
-        {task.status === TaskStatus.ERROR && (
-          <button
-            onClick={handleRetryClick}
-            disabled={isRetrying}
-            className="flex-shrink-0 bg-red-500/10 hover:bg-red-500/20 text-red-400 p-2 rounded-lg transition-colors disabled:opacity-50"
-            title="Retry Download"
-          >
-            <RefreshCw className={`w-5 h-5 ${isRetrying ? 'animate-spin' : ''}`} />
-          </button>
-        )}
-
-        {/* Download Button (Visible on Complete) */}
-        {task.status === TaskStatus.COMPLETED && (
-          <button 
-              onClick={handleDownloadClick}
-              disabled={isDownloading}
-              className="flex-shrink-0 bg-green-500/10 hover:bg-green-500/20 text-green-400 p-2 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-wait"
-              title="Download Video"
-          >
-            {isDownloading ? (
-              <Loader2 className="w-5 h-5 animate-spin" />
-            ) : (
-              <Download className="w-5 h-5" />
-            )}
-          </button>
-        )}
-        
-        {/* Status Icon Indicator */}
-        <div className="flex-shrink-0 text-slate-400 pl-1">
-          {getStatusIcon()}
+        {/* Action Buttons */}
+        <div className="flex items-center gap-2">
+          
+          {/* Cancel Button (Visible while resolving or transferring) */}
+          {(task.status === TaskStatus.DOWNLOADING || task.transfer) && (
+            <button
+              onClick={() => onCancel(task.id)}
+              className="flex-shrink-0 bg-slate-700/50 hover:bg-red-500/20 text-slate-400 hover:text-red-400 p-2 rounded-lg transition-colors"
+              title="Cancel"
+            >
+              <Square className="w-5 h-5" />
+            </button>
+          )}
+
+          {/* Retry Button (Visible on Error) */}
+          {task.status === TaskStatus.ERROR && isRetryableKind(task.errorKind) && (
+            <button
+              onClick={handleRetryClick}
+              disabled={isRetrying}
+              className="flex-shrink-0 bg-red-500/10 hover:bg-red-500/20 text-red-400 p-2 rounded-lg transition-colors disabled:opacity-50"
+              title="Retry Download"
+            >
+              <RefreshCw className={`w-5 h-5 ${isRetrying ? 'animate-spin' : ''}`} />
+            </button>
+          )}
+
+          {/* Video / Audio Toggle (Visible when the post has a soundtrack) */}
+          {task.status === TaskStatus.COMPLETED && hasSoundtrack && (
+            <button
+              onClick={toggleMediaType}
+              className={`flex-shrink-0 p-2 rounded-lg transition-colors ${mediaType === 'audio'
+                ? 'bg-purple-500/10 hover:bg-purple-500/20 text-purple-300'
+                : 'bg-slate-700/50 hover:bg-slate-700 text-slate-400'}`}
+              title={mediaType === 'audio'
+                ? `Saving soundtrack only, click for ${images.length > 0 ? 'images' : 'video'}`
+                : `Saving ${images.length > 0 ? 'images' : 'video'}, click for soundtrack only`}
+            >
+              {mediaType === 'audio' ? <Music className="w-5 h-5" /> : <Film className="w-5 h-5" />}
+            </button>
+          )}
+
+          {/* Download Button (Visible on Complete) */}
+          {task.status === TaskStatus.COMPLETED && (
+            <button 
+                onClick={handleDownloadClick}
+                disabled={isDownloading}
+                className="flex-shrink-0 bg-green-500/10 hover:bg-green-500/20 text-green-400 p-2 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-wait"
+                title={mediaType === 'audio' ? "Download Soundtrack" : images.length > 0 ? "Download Images" : "Download Video"}
+            >
+              {isDownloading ? (
+                <Loader2 className="w-5 h-5 animate-spin" />
+              ) : (
+                <Download className="w-5 h-5" />
+              )}
+            </button>
+          )}
+          
+          {/* Status Icon Indicator */}
+          <div className="flex-shrink-0 text-slate-400 pl-1">
+            {getStatusIcon()}
+          </div>
         </div>
       </div>
+
+      {isExpanded && <TaskDetails task={task} />}
+      {isExpanded && task.attempts && task.attempts.length > 0 && <AttemptLog task={task} />}
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,128 @@
+import React, { useState } from 'react';
+import { Eye, ClipboardCheck, Plus, Trash2, AlertCircle } from 'lucide-react';
+import { WatchSettings } from '../types';
+import { WATCH_INTERVALS } from '../services/watchService';
+import { parseProfileInput } from '../services/profileService';
+
+interface WatchPanelProps {
+  settings: WatchSettings;
+  onChange: (changes: Partial<WatchSettings>) => void;
+}
+
+export const WatchPanel: React.FC<WatchPanelProps> = ({ settings, onChange }) => {
+  const [input, setInput] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleAdd = () => {
+    const username = parseProfileInput(input);
+    if (!username) {
+      setError('Enter a @username or a TikTok profile link.');
+      return;
+    }
+    if (settings.profiles.some(p => p.username.toLowerCase() === username.toLowerCase())) {
+      setError(`@${username} is already watched.`);
+      return;
+    }
+    setError(null);
+    setInput('');
+    onChange({ profiles: [...settings.profiles, { username }] });
+  };
+
+  const handleRemove = (username: string) => {
+    onChange({ profiles: settings.profiles.filter(p => p.username !== username) });
+  };
+
+  return (
+    <div className="bg-slate-800/50 p-6 rounded-2xl border border-slate-700 shadow-xl backdrop-blur-sm mb-8">
+      <h2 className="text-xl font-semibold text-white flex items-center gap-2 mb-4">
+        <Eye className="w-5 h-5 text-cyan-400" />
+        Watch Mode
+      </h2>
+
+      <label className="flex items-start gap-3 text-sm text-slate-300 cursor-pointer mb-6">
+        <input
+          type="checkbox"
+          checked={settings.clipboard}
+          onChange={(e) => onChange({ clipboard: e.target.checked })}
+          className="mt-1 accent-cyan-500"
+        />
+        <span>
+          <span className="flex items-center gap-1.5 font-medium text-white">
+            <ClipboardCheck className="w-4 h-4" />
+            Watch the clipboard
+          </span>
+          <span className="text-xs text-slate-500">
+            Whenever you switch back to this tab, TikTok links on the clipboard are added to the queue.
+            The browser asks for clipboard access the first time.
+          </span>
+        </span>
+      </label>
+
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-sm font-medium text-white">Watched profiles</h3>
+        <label className="flex items-center gap-2 text-xs text-slate-400">
+          Check every
+          <select
+            value={settings.intervalMinutes}
+            onChange={(e) => onChange({ intervalMinutes: Number(e.target.value) })}
+            className="bg-slate-900 border border-slate-700 rounded-md px-2 py-1 text-slate-300 focus:outline-none focus:ring-1 focus:ring-cyan-500"
+          >
+            {WATCH_INTERVALS.map(minutes => (
+              <option key={minutes} value={minutes}>{minutes} min</option>
+            ))}
+          </select>
+        </label>
+      </div>
+      <p className="text-xs text-slate-500 mb-3">
+        New posts are queued while this tab stays open. Posts from before a profile was added are left alone.
+      </p>
+
+      <div className="flex gap-2 mb-2">
+        <input
+          type="text"
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') handleAdd(); }}
+          placeholder="@username or https://www.tiktok.com/@username"
+          className="flex-1 bg-slate-900/80 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-200 font-mono outline-none focus:ring-2 focus:ring-cyan-500 placeholder-slate-600"
+        />
+        <button
+          onClick={handleAdd}
+          disabled={!input.trim()}
+          className="bg-slate-700 hover:bg-slate-600 text-white text-sm font-medium px-4 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+        >
+          <Plus className="w-4 h-4" />
+          Watch
+        </button>
+      </div>
+      {error && <p className="text-xs text-red-400 mb-2">{error}</p>}
+
+      {settings.profiles.length > 0 && (
+        <div className="space-y-1">
+          {settings.profiles.map(profile => (
+            <div key={profile.username} className="flex items-center gap-3 text-xs bg-slate-900/60 border border-slate-700/50 rounded-lg px-3 py-2">
+              <span className="flex-1 text-slate-200">@{profile.username}</span>
+              {profile.lastError ? (
+                <span className="flex items-center gap-1 text-red-400 truncate" title={profile.lastError}>
+                  <AlertCircle className="w-3 h-3" />
+                  {profile.lastError}
+                </span>
+              ) : (
+                <span className="text-slate-500">
+                  {profile.lastCheckedAt ? `Checked ${new Date(profile.lastCheckedAt).toLocaleTimeString()}` : 'Not checked yet'}
+                </span>
+              )}
+              <button
+                onClick={() => handleRemove(profile.username)}
+                className="text-slate-500 hover:text-red-400 transition-colors"
+                title="Stop watching"
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
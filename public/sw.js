@@ -0,0 +1,77 @@
+// App shell cache. Everything is resolved against the registration scope, so the worker
+// follows whatever `base` the app is deployed under (see vite.config.ts).
+// Only same-origin requests inside the scope are handled; API, proxy and media requests
+// always go straight to the network.
+
+const CACHE = 'tokbatch-shell-v1';
+const SHELL = ['./', 'manifest.webmanifest', 'icon-192.png', 'icon-512.png'];
+
+const scoped = (path) => new URL(path, self.registration.scope).href;
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(CACHE)
+      .then(cache => cache.addAll(SHELL.map(scoped)))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(key => key.startsWith('tokbatch-shell-') && key !== CACHE).map(key => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+// Built assets carry a content hash in their name, so a cached copy never goes stale
+const cacheFirst = async (request) => {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(CACHE);
+    cache.put(request, response.clone());
+  }
+  return response;
+};
+
+// Pages (including share target launches with their query string) always try the network
+// first and fall back to the cached shell when offline
+const navigate = async (request) => {
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      const cache = await caches.open(CACHE);
+      cache.put(scoped('./'), response.clone());
+    }
+    return response;
+  } catch (err) {
+    const cached = await caches.match(scoped('./'));
+    if (cached) return cached;
+    throw err;
+  }
+};
+
+const networkFirst = async (request) => {
+  try {
+    return await fetch(request);
+  } catch (err) {
+    const cached = await caches.match(request, { ignoreSearch: true });
+    if (cached) return cached;
+    throw err;
+  }
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET' || !request.url.startsWith(self.registration.scope)) return;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(navigate(request));
+  } else if (request.url.startsWith(scoped('assets/'))) {
+    event.respondWith(cacheFirst(request));
+  } else {
+    event.respondWith(networkFirst(request));
+  }
+});
@@ -0,0 +1,259 @@
+import JSZip from 'jszip';
+import saveAs from 'file-saver';
+import { ArchiveGrouping, ArchiveSettings, ArchiveVolume } from '../types';
+import { createZipWriter } from './zipWriter';
+
+// File System Access API entry points (Chromium only, not in the TS DOM lib yet)
+declare global {
+  interface Window {
+    showSaveFilePicker?: (options?: {
+      suggestedName?: string;
+      types?: { description: string; accept: Record<string, string[]> }[];
+    }) => Promise<FileSystemFileHandle>;
+    showDirectoryPicker?: (options?: { mode?: 'read' | 'readwrite' }) => Promise<FileSystemDirectoryHandle>;
+  }
+}
+
+export type ArchiveMode = 'zip' | 'folder';
+
+const ARCHIVE_SETTINGS_KEY = 'tokbatch.archiveSettings';
+
+export const DEFAULT_ARCHIVE_SETTINGS: ArchiveSettings = { grouping: 'none', maxVolumeBytes: 0 };
+
+const GROUPINGS: ArchiveGrouping[] = ['none', 'author', 'date', 'source'];
+
+export const loadArchiveSettings = (): ArchiveSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(ARCHIVE_SETTINGS_KEY) || '{}');
+    return {
+      grouping: GROUPINGS.includes(stored.grouping) ? stored.grouping : DEFAULT_ARCHIVE_SETTINGS.grouping,
+      maxVolumeBytes: Number.isFinite(stored.maxVolumeBytes) && stored.maxVolumeBytes > 0 ? stored.maxVolumeBytes : 0
+    };
+  } catch {
+    return DEFAULT_ARCHIVE_SETTINGS;
+  }
+};
+
+export const saveArchiveSettings = (settings: ArchiveSettings) => {
+  try {
+    localStorage.setItem(ARCHIVE_SETTINGS_KEY, JSON.stringify(settings));
+  } catch (err) {
+    console.warn("Could not save archive settings:", err);
+  }
+};
+
+// Where the files of a bulk download end up. Paths are relative to the batch folder.
+export interface ArchiveTarget {
+  kind: 'zip-stream' | 'folder' | 'memory';
+  addFile: (path: string, data: Blob | string) => Promise<void>;
+  close: () => Promise<void>;
+  abort: () => Promise<void>;
+  // Multi-volume archives only: the files written to each part so far
+  volumes?: () => ArchiveVolume[];
+}
+
+export interface ArchiveOptions {
+  mode: ArchiveMode;
+  fileName: string;
+  folderName: string;
+  // ZIP mode only: split into `<name>_part1.zip`, `_part2.zip`, ... past this size
+  maxVolumeBytes?: number;
+}
+
+// Above this many files the in-memory ZIP is likely to exhaust the tab
+export const IN_MEMORY_MAX_FILES = 40;
+
+export const supportsStreamingZip = () => typeof window !== 'undefined' && !!window.showSaveFilePicker;
+export const supportsFolderTarget = () => typeof window !== 'undefined' && !!window.showDirectoryPicker;
+
+const isPickerCancelled = (error: any) => error?.name === 'AbortError';
+
+// ZIP entries are written straight into the file on disk as they arrive
+const openStreamingZip = async ({ fileName, folderName }: ArchiveOptions): Promise<ArchiveTarget> => {
+  const handle = await window.showSaveFilePicker!({
+    suggestedName: fileName,
+    types: [{ description: 'ZIP archive', accept: { 'application/zip': ['.zip'] } }]
+  });
+  const writable = await handle.createWritable();
+  const zip = createZipWriter({
+    write: (chunk) => writable.write(chunk),
+    close: () => writable.close()
+  });
+
+  return {
+    kind: 'zip-stream',
+    addFile: (path, data) => zip.addFile(`${folderName}/${path}`, data),
+    close: () => zip.close(),
+    abort: () => writable.abort()
+  };
+};
+
+// Loose files in a user-picked directory, one sub folder per batch
+const openFolder = async ({ folderName }: ArchiveOptions): Promise<ArchiveTarget> => {
+  const root = await window.showDirectoryPicker!({ mode: 'readwrite' });
+  const batchDir = await root.getDirectoryHandle(folderName, { create: true });
+
+  const addFile = async (path: string, data: Blob | string) => {
+    const segments = path.split('/').filter(s => s.length > 0);
+    const name = segments.pop()!;
+    let dir = batchDir;
+    for (const segment of segments) {
+      dir = await dir.getDirectoryHandle(segment, { create: true });
+    }
+    const writable = await (await dir.getFileHandle(name, { create: true })).createWritable();
+    try {
+      await writable.write(data);
+      await writable.close();
+    } catch (error) {
+      await writable.abort();
+      throw error;
+    }
+  };
+
+  return {
+    kind: 'folder',
+    addFile,
+    close: async () => {},
+    abort: async () => {}
+  };
+};
+
+// Fallback for browsers without the File System Access API: everything is held in RAM
+export const openInMemoryZip = ({ fileName, folderName }: ArchiveOptions): ArchiveTarget => {
+  const zip = new JSZip();
+  const folder = zip.folder(folderName)!;
+
+  return {
+    kind: 'memory',
+    addFile: async (path, data) => { folder.file(path, data); },
+    close: async () => {
+      const content = await zip.generateAsync({ type: "blob" });
+      saveAs(content, fileName);
+    },
+    abort: async () => {}
+  };
+};
+
+// One ZIP file of a multi-volume archive; paths already include the batch folder
+interface ZipVolume {
+  addFile: (path: string, data: Blob | string) => Promise<void>;
+  close: () => Promise<void>;
+  abort: () => Promise<void>;
+}
+
+// Local header, central directory record and ZIP64 extras, roughly
+const ENTRY_OVERHEAD_BYTES = 200;
+
+const entrySize = (path: string, data: Blob | string) =>
+  (typeof data === 'string' ? new TextEncoder().encode(data).length : data.size) +
+  new TextEncoder().encode(path).length * 2 + ENTRY_OVERHEAD_BYTES;
+
+export const volumeFileName = (fileName: string, part: number) =>
+  fileName.replace(/(\.zip)?$/i, `_part${part}.zip`);
+
+// Starts a new volume whenever the next file would push the current one past the limit.
+// A single file larger than the limit still gets a volume of its own.
+const createVolumeSet = (
+  kind: ArchiveTarget['kind'],
+  openVolume: (fileName: string) => Promise<ZipVolume>,
+  { fileName, folderName, maxVolumeBytes }: ArchiveOptions
+): ArchiveTarget => {
+  let current: ZipVolume | null = null;
+  let used = 0;
+  const volumes: ArchiveVolume[] = [];
+  // Rollover decisions must see files in order, so concurrent calls are chained
+  let queue: Promise<void> = Promise.resolve();
+
+  const add = async (path: string, data: Blob | string) => {
+    const fullPath = `${folderName}/${path}`;
+    const size = entrySize(fullPath, data);
+    if (current && used > 0 && used + size > maxVolumeBytes!) {
+      await current.close();
+      current = null;
+    }
+    if (!current) {
+      const volumeName = volumeFileName(fileName, volumes.length + 1);
+      current = await openVolume(volumeName);
+      volumes.push({ fileName: volumeName, files: [] });
+      used = 0;
+    }
+    await current.addFile(fullPath, data);
+    volumes[volumes.length - 1].files.push(path);
+    used += size;
+  };
+
+  const enqueue = (task: () => Promise<void>) => {
+    const run = queue.then(task);
+    queue = run.catch(() => undefined);
+    return run;
+  };
+
+  return {
+    kind,
+    addFile: (path, data) => enqueue(() => add(path, data)),
+    close: () => enqueue(async () => { await current?.close(); }),
+    abort: async () => { await current?.abort(); },
+    volumes: () => volumes.map(volume => ({ ...volume, files: [...volume.files] }))
+  };
+};
+
+// Volumes are written as separate files into a user-picked directory, since the save
+// picker needs a fresh user gesture for every file
+const openStreamingVolumes = async (options: ArchiveOptions): Promise<ArchiveTarget> => {
+  const root = await window.showDirectoryPicker!({ mode: 'readwrite' });
+
+  return createVolumeSet('zip-stream', async (fileName) => {
+    const writable = await (await root.getFileHandle(fileName, { create: true })).createWritable();
+    const zip = createZipWriter({
+      write: (chunk) => writable.write(chunk),
+      close: () => writable.close()
+    });
+    return {
+      addFile: (path, data) => zip.addFile(path, data),
+      close: () => zip.close(),
+      abort: () => writable.abort()
+    };
+  }, options);
+};
+
+// Full volumes are compressed right away, but all parts are handed to the browser together
+// at the end: downloads started long after the user's click get blocked as unrequested
+const openInMemoryVolumes = (options: ArchiveOptions): ArchiveTarget => {
+  const finished: { fileName: string; content: Blob }[] = [];
+  const volumeSet = createVolumeSet('memory', async (fileName) => {
+    const zip = new JSZip();
+    return {
+      addFile: async (path, data) => { zip.file(path, data); },
+      close: async () => { finished.push({ fileName, content: await zip.generateAsync({ type: "blob" }) }); },
+      abort: async () => {}
+    };
+  }, options);
+
+  return {
+    ...volumeSet,
+    close: async () => {
+      await volumeSet.close();
+      finished.forEach(({ fileName, content }) => saveAs(content, fileName));
+    }
+  };
+};
+
+// Must be called from a user gesture (the pickers require it).
+// Returns null when the user cancels the picker.
+export const openArchiveTarget = async (options: ArchiveOptions): Promise<ArchiveTarget | null> => {
+  try {
+    if (options.mode === 'folder' && supportsFolderTarget()) {
+      return await openFolder(options);
+    }
+    if (options.maxVolumeBytes) {
+      return supportsFolderTarget() ? await openStreamingVolumes(options) : openInMemoryVolumes(options);
+    }
+    if (supportsStreamingZip()) {
+      return await openStreamingZip(options);
+    }
+  } catch (error) {
+    if (isPickerCancelled(error)) return null;
+    throw error;
+  }
+  return openInMemoryZip(options);
+};
@@ -0,0 +1,189 @@
+import {
+  ArchiveGrouping, FetchAttempt, FileNameSettings, ResolvedVideo, TaskStatus, TransferProgress, VideoTask
+} from '../types';
+import {
+  DownloadDefaults, DownloadedFile, SlideshowFiles, downloadSlideshow, downloadTaskMedia, effectiveMediaType, isSlideshow
+} from './downloadService';
+import { fileNameContext, getFileNameSettings, groupFolderName, renderFileName, renderFolderName } from './fileNaming';
+import { ERROR_POLICIES, TaskError, classifyError } from './errors';
+import { isAbortError } from '../utils/abort';
+
+// The batch pipeline shared by the web app and the CLI: no React, no DOM-only APIs.
+
+export const createTask = (url: string, videoId?: string, source?: string): VideoTask => ({
+  id: Math.random().toString(36).substr(2, 9),
+  url,
+  videoId,
+  source,
+  status: TaskStatus.IDLE,
+  progress: 0
+});
+
+// What a successful resolve writes back onto its task
+export const resolvedTaskFields = (task: VideoTask, data: ResolvedVideo): Partial<VideoTask> => ({
+  videoId: data.videoId || task.videoId,
+  title: data.title,
+  thumbnail: data.thumbnail,
+  downloadUrl: data.downloadUrl,
+  variants: data.variants,
+  postType: data.postType,
+  images: data.images,
+  fileSize: data.size,
+  metadata: data.metadata,
+  status: TaskStatus.COMPLETED,
+  progress: 100
+});
+
+// One file of a slideshow folder
+export interface SlideshowEntry {
+  path: string;
+  blob: Blob;
+  sha256: string;
+}
+
+// What a task was saved as, for the manifest
+export const savedFileFields = (fileName: string, file: DownloadedFile): Partial<VideoTask> => ({
+  fileName,
+  fileSize: file.blob.size,
+  savedMediaType: file.mediaType,
+  savedQuality: file.variant?.quality,
+  checksums: [{ path: fileName, sha256: file.sha256 }]
+});
+
+// A slideshow is saved as a folder; the manifest records its path, total size and every file's hash
+export const savedSlideshowFields = (folderName: string, entries: SlideshowEntry[]): Partial<VideoTask> => ({
+  fileName: `${folderName}/`,
+  fileSize: entries.reduce((sum, entry) => sum + entry.blob.size, 0),
+  savedMediaType: 'video',
+  savedQuality: undefined,
+  checksums: entries.map(entry => ({ path: entry.path, sha256: entry.sha256 }))
+});
+
+// Images are numbered in carousel order, the soundtrack sits next to them
+export const slideshowEntries = (folderName: string, files: SlideshowFiles): SlideshowEntry[] => {
+  const prefix = folderName ? `${folderName}/` : '';
+  const digits = Math.max(2, String(files.images.length).length);
+  const entries = files.images.map((image, index) => ({
+    path: `${prefix}${String(index + 1).padStart(digits, '0')}.${image.extension}`,
+    blob: image.blob,
+    sha256: image.sha256
+  }));
+  if (files.audio) entries.push({ path: `${prefix}audio.${files.audio.extension}`, blob: files.audio.blob, sha256: files.audio.sha256 });
+  return entries;
+};
+
+// Anything files can be written into: a ZIP, a browser folder handle or a directory on disk
+export interface FileTarget {
+  addFile: (path: string, data: Blob | string) => Promise<void>;
+}
+
+export interface SaveBatchOptions {
+  defaults: DownloadDefaults;
+  grouping: ArchiveGrouping;
+  // Hands out unique paths within the target (see createNameAllocator)
+  allocateName: (path: string, isFolder?: boolean) => string;
+  fileNameSettings?: FileNameSettings;
+  // How many tasks download at once
+  chunkSize?: number;
+  // Live transfer stats per task; undefined once the task is done
+  onProgress?: (task: VideoTask, progress?: TransferProgress) => void;
+  // Called for tasks whose download failed; an `_error.txt` is written in their place
+  onError?: (task: VideoTask, error: any) => void;
+  // Every proxy attempt made while downloading a task, for its attempt log
+  onAttempt?: (task: VideoTask, attempt: FetchAttempt) => void;
+  // Resolves a task again when its download link has expired; the download is then retried once
+  refreshTask?: (task: VideoTask) => Promise<VideoTask>;
+  signal?: AbortSignal;
+}
+
+const DEFAULT_CHUNK_SIZE = 3;
+
+// Download one task into the target. Returns the saved-file fields, or undefined when the
+// download failed (after writing an error note next to where the file would have gone).
+const saveTask = async (
+  task: VideoTask,
+  index: number,
+  target: FileTarget,
+  { defaults, grouping, allocateName, fileNameSettings = getFileNameSettings(), onProgress, onError, onAttempt, refreshTask, signal }: SaveBatchOptions
+): Promise<Partial<VideoTask> | undefined> => {
+  // Video and audio tasks can be mixed in one archive
+  const mediaType = effectiveMediaType(task, defaults);
+  const nameContext = fileNameContext(task, index, mediaType);
+  const group = groupFolderName(nameContext, grouping, fileNameSettings);
+  const inGroup = (path: string) => group ? `${group}/${path}` : path;
+  // Photo posts get a sub folder holding every image and the soundtrack
+  const asSlideshow = isSlideshow(task) && mediaType === 'video';
+  const fetchOptions = {
+    onProgress: (progress: TransferProgress) => onProgress?.(task, progress),
+    onAttempt: (attempt: FetchAttempt) => onAttempt?.(task, attempt),
+    signal
+  };
+
+  // Robust fetcher for binary data, falling back across proxies and variants
+  const download = (from: VideoTask) => asSlideshow
+    ? downloadSlideshow(from, fetchOptions)
+    : downloadTaskMedia(from, defaults, fetchOptions);
+
+  let downloaded: SlideshowFiles | DownloadedFile;
+  try {
+    try {
+      downloaded = await download(task);
+    } catch (error) {
+      if (!refreshTask || classifyError(error) !== 'expired-url') throw error;
+      downloaded = await download(await refreshTask(task));
+    }
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    onError?.(task, error);
+    const what = asSlideshow ? 'slideshow images' : `${mediaType} data`;
+    const errorName = inGroup(renderFileName(nameContext, 'txt', fileNameSettings).replace(/\.txt$/, '_error.txt'));
+    await target.addFile(
+      allocateName(errorName),
+      `Failed to download: ${task.url}\nError: ${error instanceof TaskError ? error.message : `Could not fetch ${what} via proxies.`}\n` +
+      `Kind: ${ERROR_POLICIES[classifyError(error)].label}`
+    );
+    return undefined;
+  } finally {
+    onProgress?.(task, undefined);
+  }
+
+  if (asSlideshow) {
+    const folderName = allocateName(inGroup(renderFolderName(nameContext, fileNameSettings)), true);
+    const entries = slideshowEntries(folderName, downloaded as SlideshowFiles);
+    for (const entry of entries) {
+      await target.addFile(entry.path, entry.blob);
+    }
+    return savedSlideshowFields(folderName, entries);
+  }
+
+  // Written out right away, so only the current chunk is held in memory
+  const file = downloaded as DownloadedFile;
+  const fileName = allocateName(inGroup(renderFileName(nameContext, file.extension, fileNameSettings)));
+  await target.addFile(fileName, file.blob);
+  return savedFileFields(fileName, file);
+};
+
+// Download resolved tasks into the target a few at a time.
+// Returns the saved-file fields of every task that made it, keyed by task ID.
+export const saveBatch = async (
+  tasks: VideoTask[],
+  target: FileTarget,
+  options: SaveBatchOptions
+): Promise<Map<string, Partial<VideoTask>>> => {
+  const savedFiles = new Map<string, Partial<VideoTask>>();
+  const chunkSize = options.chunkSize || DEFAULT_CHUNK_SIZE;
+
+  for (let i = 0; i < tasks.length; i += chunkSize) {
+    const chunk = tasks.slice(i, i + chunkSize);
+    await Promise.all(chunk.map(async (task, offset) => {
+      const fields = await saveTask(task, i + offset, target, options);
+      if (fields) savedFiles.set(task.id, fields);
+    }));
+  }
+
+  return savedFiles;
+};
+
+// Merge saved-file fields back into tasks (e.g. before building the manifest)
+export const withSavedFiles = (savedFiles: Map<string, Partial<VideoTask>>) =>
+  (task: VideoTask): VideoTask => savedFiles.has(task.id) ? { ...task, ...savedFiles.get(task.id) } : task;
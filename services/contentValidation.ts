@@ -0,0 +1,59 @@
+// Sanity checks for downloaded media, so error pages served with a 200 never get saved as .mp4
+
+export type MediaKind = 'video' | 'audio' | 'image';
+
+// Smaller than this can't be a real file of the kind
+const MIN_BYTES: Record<MediaKind, number> = {
+  video: 10 * 1024,
+  audio: 2 * 1024,
+  image: 512
+};
+
+// A result this much smaller than the resolver's reported size is treated as truncated.
+// Bigger is fine: CDNs sometimes serve a slightly different encode.
+const MIN_SIZE_RATIO = 0.9;
+
+const TEXT_TYPES = /^(text\/|application\/(json|xml|xhtml\+xml|javascript))/i;
+
+const ascii = (bytes: Uint8Array, start: number, end: number) =>
+  String.fromCharCode(...Array.from(bytes.subarray(start, end)));
+
+// ISO BMFF (MP4, M4A, HEIC) starts with a size followed by an `ftyp` box
+const isIsoMedia = (bytes: Uint8Array) => ascii(bytes, 4, 8) === 'ftyp';
+
+const isImage = (bytes: Uint8Array) =>
+  (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) || // JPEG
+  ascii(bytes, 1, 4) === 'PNG' ||
+  (ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 12) === 'WEBP') ||
+  (ascii(bytes, 0, 3) === 'GIF') ||
+  isIsoMedia(bytes); // HEIC / AVIF
+
+const isAudio = (bytes: Uint8Array) =>
+  ascii(bytes, 0, 3) === 'ID3' ||
+  (bytes[0] === 0xff && (bytes[1] & 0xe0) === 0xe0) || // MPEG frame sync
+  isIsoMedia(bytes); // M4A
+
+const MAGIC_CHECKS: Record<MediaKind, (bytes: Uint8Array) => boolean> = {
+  video: isIsoMedia,
+  audio: isAudio,
+  image: isImage
+};
+
+// Checked on the first bytes of a download, so an error page is dropped before the rest arrives.
+// Returns why they aren't a plausible file of this kind, or undefined when they look fine.
+// The signature decides: some CORS proxies relabel binary responses as text, so a text
+// Content-Type only explains a rejection when the bytes aren't recognisable media.
+export const checkMediaHeader = (header: Uint8Array, contentType: string, kind: MediaKind): string | undefined => {
+  if (MAGIC_CHECKS[kind](header)) return undefined;
+  if (TEXT_TYPES.test(contentType)) return `Got ${contentType.split(';')[0]} instead of ${kind} data`;
+  return `Content doesn't look like ${kind === 'image' ? 'an' : 'a'} ${kind} file`;
+};
+
+// Checked once the whole file is in
+export const checkMediaSize = (size: number, kind: MediaKind, expectedSize?: number): string | undefined => {
+  if (size < MIN_BYTES[kind]) return `File is too small to be ${kind === 'image' ? 'an' : 'a'} ${kind} (${size} bytes)`;
+  if (expectedSize && size < expectedSize * MIN_SIZE_RATIO) {
+    return `Got ${size} bytes, expected about ${expectedSize}`;
+  }
+  return undefined;
+};
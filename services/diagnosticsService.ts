@@ -0,0 +1,37 @@
+import { FetchAttempt, VideoTask } from '../types';
+import { proxyManager } from './proxyManager';
+
+// Older attempts are dropped so a task that keeps failing can't grow without bound
+export const MAX_ATTEMPTS_PER_TASK = 50;
+
+// Host and path only: signed CDN links carry access tokens in their query string
+export const describeTarget = (url: string) => {
+  try {
+    const parsed = new URL(url);
+    return `${parsed.host}${parsed.pathname}`;
+  } catch {
+    return url.split('?')[0];
+  }
+};
+
+export const appendAttempt = (attempts: FetchAttempt[] | undefined, attempt: FetchAttempt) =>
+  [...(attempts || []), attempt].slice(-MAX_ATTEMPTS_PER_TASK);
+
+// Attached to bug reports: the task, every attempt made for it and the session's proxy health
+export const buildDebugLog = (task: VideoTask) => JSON.stringify({
+  generatedAt: new Date().toISOString(),
+  userAgent: typeof navigator !== 'undefined' ? navigator.userAgent : undefined,
+  task: {
+    url: task.url,
+    videoId: task.videoId,
+    source: task.source,
+    title: task.title,
+    status: task.status,
+    errorKind: task.errorKind,
+    errorMessage: task.errorMessage,
+    postType: task.postType,
+    variants: task.variants?.map(v => ({ quality: v.quality, size: v.size, target: describeTarget(v.url) }))
+  },
+  attempts: task.attempts || [],
+  proxies: proxyManager.getStats()
+}, null, 2);
@@ -0,0 +1,180 @@
+import { MediaType, VideoQuality, VideoTask, VideoVariant } from '../types';
+import { fetchWithProxies, FetchedBlob, FetchOptions } from './proxyService';
+import { isAbortError } from '../utils/abort';
+import { MediaKind, checkMediaHeader, checkMediaSize } from './contentValidation';
+
+const DEFAULT_QUALITY_KEY = 'tokbatch.defaultQuality';
+const DEFAULT_MEDIA_TYPE_KEY = 'tokbatch.defaultMediaType';
+
+export const QUALITY_LABELS: Record<VideoQuality, string> = {
+  hd: 'HD',
+  standard: 'Standard',
+  watermarked: 'Watermarked'
+};
+
+// Best first; used to pick the fallback after the preferred variant fails
+const QUALITY_RANK: VideoQuality[] = ['hd', 'standard', 'watermarked'];
+
+export const loadDefaultQuality = (): VideoQuality => {
+  try {
+    const stored = localStorage.getItem(DEFAULT_QUALITY_KEY) as VideoQuality | null;
+    return stored && QUALITY_RANK.includes(stored) ? stored : 'standard';
+  } catch {
+    return 'standard';
+  }
+};
+
+export const saveDefaultQuality = (quality: VideoQuality) => {
+  try {
+    localStorage.setItem(DEFAULT_QUALITY_KEY, quality);
+  } catch (err) {
+    console.warn("Could not save default quality:", err);
+  }
+};
+
+export const loadDefaultMediaType = (): MediaType => {
+  try {
+    return localStorage.getItem(DEFAULT_MEDIA_TYPE_KEY) === 'audio' ? 'audio' : 'video';
+  } catch {
+    return 'video';
+  }
+};
+
+export const saveDefaultMediaType = (mediaType: MediaType) => {
+  try {
+    localStorage.setItem(DEFAULT_MEDIA_TYPE_KEY, mediaType);
+  } catch (err) {
+    console.warn("Could not save default media type:", err);
+  }
+};
+
+// Batch-wide defaults that individual tasks may override
+export interface DownloadDefaults {
+  quality: VideoQuality;
+  mediaType: MediaType;
+}
+
+export const effectiveMediaType = (task: VideoTask, defaults: DownloadDefaults): MediaType => {
+  const mediaType = task.mediaType || defaults.mediaType;
+  // Posts without a soundtrack URL can only be saved as video
+  return mediaType === 'audio' && !task.metadata?.music?.url ? 'video' : mediaType;
+};
+
+// The task's variants in the order they should be tried: the chosen quality first,
+// then the rest best-first. Tasks resolved before variants existed fall back to downloadUrl.
+export const orderVariants = (task: VideoTask, defaultQuality: VideoQuality): VideoVariant[] => {
+  const variants = task.variants?.length
+    ? task.variants
+    : task.downloadUrl ? [{ quality: 'standard' as VideoQuality, url: task.downloadUrl, size: task.fileSize }] : [];
+  const preferred = task.quality || defaultQuality;
+
+  return [...variants].sort((a, b) => {
+    if (a.quality === preferred) return -1;
+    if (b.quality === preferred) return 1;
+    return QUALITY_RANK.indexOf(a.quality) - QUALITY_RANK.indexOf(b.quality);
+  });
+};
+
+export interface DownloadedFile {
+  blob: Blob;
+  extension: string;
+  mediaType: MediaType;
+  variant?: VideoVariant;
+  sha256: string;
+}
+
+// Fetch a media file, moving on to the next proxy whenever a response fails validation
+const fetchMedia = (url: string, kind: MediaKind, options: FetchOptions, expectedSize?: number): Promise<FetchedBlob> =>
+  fetchWithProxies(url, 'blob', {
+    ...options,
+    checkHeader: (header, contentType) => checkMediaHeader(header, contentType, kind),
+    validate: (blob) => checkMediaSize(blob.size, kind, expectedSize)
+  });
+
+// Download the preferred variant, falling back to the next one when it fails
+const downloadVideo = async (
+  task: VideoTask,
+  quality: VideoQuality,
+  options: FetchOptions
+): Promise<DownloadedFile> => {
+  const variants = orderVariants(task, quality);
+  if (variants.length === 0) throw new Error('No download URL for this video.');
+
+  let lastError: any = null;
+  for (const variant of variants) {
+    try {
+      const { blob, sha256 } = await fetchMedia(variant.url, 'video', options, variant.size);
+      return { blob, extension: 'mp4', mediaType: 'video', variant, sha256 };
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      // Message only: the shared core also runs in the CLI, where a stack per fallback is noise
+      console.warn(`${QUALITY_LABELS[variant.quality]} download failed, trying next variant: ${(error as Error)?.message || error}`);
+      lastError = error;
+    }
+  }
+  throw lastError;
+};
+
+// TikTok serves soundtracks as MP3 or AAC in an MP4 container
+const audioExtension = (blob: Blob, url: string) => {
+  if (/audio\/(mp4|x-m4a|aac)/i.test(blob.type)) return 'm4a';
+  if (/audio\/(mpeg|mp3)/i.test(blob.type)) return 'mp3';
+  return url.match(/\.(mp3|m4a)(?:[?#]|$)/i)?.[1].toLowerCase() || 'mp3';
+};
+
+const downloadAudio = async (task: VideoTask, options: FetchOptions): Promise<DownloadedFile> => {
+  const url = task.metadata?.music?.url;
+  if (!url) throw new Error('No soundtrack URL for this post.');
+  const { blob, sha256 } = await fetchMedia(url, 'audio', options);
+  return { blob, extension: audioExtension(blob, url), mediaType: 'audio', sha256 };
+};
+
+// Slideshow images arrive as JPEG or WebP, occasionally PNG
+const imageExtension = (blob: Blob, url: string) => {
+  const fromType = blob.type.match(/^image\/(jpeg|jpg|webp|png|heic)/i)?.[1].toLowerCase();
+  if (fromType) return fromType === 'jpeg' ? 'jpg' : fromType;
+  const fromUrl = url.match(/\.(jpe?g|webp|png|heic)(?:[~?#]|$)/i)?.[1].toLowerCase();
+  return fromUrl === 'jpeg' ? 'jpg' : fromUrl || 'jpg';
+};
+
+export interface SlideshowFiles {
+  images: { blob: Blob; extension: string; sha256: string }[];
+  audio?: { blob: Blob; extension: string; sha256: string };
+}
+
+export const isSlideshow = (task: VideoTask) => task.postType === 'slideshow' && !!task.images?.length;
+
+// Something the download buttons can act on: a video URL or slideshow images
+export const isDownloadable = (task: VideoTask) => !!task.downloadUrl || isSlideshow(task);
+
+// Every image of a photo post in order, plus its background audio when there is one.
+// A missing soundtrack doesn't fail the post; a missing image does.
+export const downloadSlideshow = async (task: VideoTask, options: FetchOptions = {}): Promise<SlideshowFiles> => {
+  const images: SlideshowFiles['images'] = [];
+  for (const url of task.images || []) {
+    const { blob, sha256 } = await fetchMedia(url, 'image', options);
+    images.push({ blob, extension: imageExtension(blob, url), sha256 });
+  }
+
+  let audio: SlideshowFiles['audio'];
+  if (task.metadata?.music?.url) {
+    try {
+      const file = await downloadAudio(task, options);
+      audio = { blob: file.blob, extension: file.extension, sha256: file.sha256 };
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      console.warn(`Soundtrack download failed for slideshow ${task.videoId}: ${(error as Error)?.message || error}`);
+    }
+  }
+  return { images, audio };
+};
+
+// Fetch whatever the task should be saved as: the video or just its soundtrack
+export const downloadTaskMedia = (
+  task: VideoTask,
+  defaults: DownloadDefaults,
+  options: FetchOptions = {}
+): Promise<DownloadedFile> =>
+  effectiveMediaType(task, defaults) === 'audio'
+    ? downloadAudio(task, options)
+    : downloadVideo(task, defaults.quality, options);
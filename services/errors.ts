@@ -0,0 +1,138 @@
+import { ErrorKind } from '../types';
+import { isAbortError, sleep } from '../utils/abort';
+
+// An error that knows what kind of failure it is, so retries and messages can depend on it
+export class TaskError extends Error {
+  kind: ErrorKind;
+
+  constructor(kind: ErrorKind, message: string) {
+    super(message);
+    this.name = 'TaskError';
+    this.kind = kind;
+  }
+}
+
+// The upstream API reported a rate limit. The scheduler backs off and retries these.
+export class RateLimitError extends TaskError {
+  constructor(message = 'Rate limit reached') {
+    super('rate-limited', message);
+    this.name = 'RateLimitError';
+  }
+}
+
+// A proxy answered, but not with the expected media (e.g. an HTML error page with a 200)
+export class InvalidContentError extends TaskError {
+  constructor(message = 'Downloaded content is not valid media') {
+    super('invalid-content', message);
+    this.name = 'InvalidContentError';
+  }
+}
+
+export interface ErrorPolicy {
+  label: string;
+  // What happened and what the user can do about it
+  explanation: string;
+  // Whether "Retry Failed" picks these up; false when retrying can't change the outcome
+  retryable: boolean;
+  // Immediate automatic retries before the task is marked failed
+  autoRetries: number;
+  // Delay before the first automatic retry, doubled for each further one
+  retryDelayMs: number;
+}
+
+export const ERROR_POLICIES: Record<ErrorKind, ErrorPolicy> = {
+  'rate-limited': {
+    label: 'Rate limited',
+    explanation: 'The resolver API is throttling requests. Lower the request rate in Settings and retry.',
+    retryable: true,
+    autoRetries: 0, // The scheduler already backs off and retries these
+    retryDelayMs: 0
+  },
+  'unavailable': {
+    label: 'Private or deleted',
+    explanation: 'The video is private, deleted or no longer exists. Retrying will not help.',
+    retryable: false,
+    autoRetries: 0,
+    retryDelayMs: 0
+  },
+  'region-blocked': {
+    label: 'Region blocked',
+    explanation: 'The video is not available in the region the resolver runs from. A proxy in another region may work.',
+    retryable: false,
+    autoRetries: 0,
+    retryDelayMs: 0
+  },
+  'invalid-url': {
+    label: 'Invalid link',
+    explanation: 'The resolver could not parse this link. Check that it points to a single video or photo post.',
+    retryable: false,
+    autoRetries: 0,
+    retryDelayMs: 0
+  },
+  'proxies-failed': {
+    label: 'Proxies failed',
+    explanation: 'None of the proxies could reach the API. They often recover within minutes, or add your own in Settings.',
+    retryable: true,
+    autoRetries: 1,
+    retryDelayMs: 5000
+  },
+  'timeout': {
+    label: 'Timed out',
+    explanation: 'Every proxy took too long to answer. Usually temporary.',
+    retryable: true,
+    autoRetries: 2,
+    retryDelayMs: 2000
+  },
+  'expired-url': {
+    label: 'Link expired',
+    explanation: 'The download link has expired. Retrying resolves the video again to get a fresh link.',
+    retryable: true,
+    autoRetries: 0,
+    retryDelayMs: 0
+  },
+  'invalid-content': {
+    label: 'Bad download',
+    explanation: 'The proxies returned something other than the media file (often an error page). Retry later or try another proxy.',
+    retryable: true,
+    autoRetries: 1,
+    retryDelayMs: 3000
+  },
+  'unknown': {
+    label: 'Failed',
+    explanation: 'Something unexpected went wrong.',
+    retryable: true,
+    autoRetries: 0,
+    retryDelayMs: 0
+  }
+};
+
+// Map an upstream API message (e.g. TikWM's `msg`) to an error kind
+export const errorKindFromMessage = (message = ''): ErrorKind => {
+  if (/limit/i.test(message)) return 'rate-limited';
+  if (/region|country/i.test(message)) return 'region-blocked';
+  if (/private|removed|deleted|not (found|exist|available)|unavailable/i.test(message)) return 'unavailable';
+  if (/url pars|invalid url|check (the )?url/i.test(message)) return 'invalid-url';
+  if (/timed? ?out/i.test(message)) return 'timeout';
+  if (/expired|\b(403|410)\b/i.test(message)) return 'expired-url';
+  if (/all proxies failed|failed to fetch/i.test(message)) return 'proxies-failed';
+  return 'unknown';
+};
+
+export const classifyError = (error: any): ErrorKind =>
+  error instanceof TaskError ? error.kind : errorKindFromMessage(error?.message);
+
+export const isRetryableKind = (kind?: ErrorKind) => ERROR_POLICIES[kind || 'unknown'].retryable;
+
+// Run `fn`, retrying automatically as the failure kind's policy allows
+export const retryWithPolicy = async <T>(fn: () => Promise<T>, signal?: AbortSignal): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      const policy = ERROR_POLICIES[classifyError(error)];
+      if (attempt >= policy.autoRetries) throw error;
+      await sleep(policy.retryDelayMs * Math.pow(2, attempt), signal);
+    }
+  }
+};
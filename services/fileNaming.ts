@@ -0,0 +1,184 @@
+import { ArchiveGrouping, FileNameSettings, FileSystemProfile, MediaType, VideoTask } from '../types';
+
+const SETTINGS_KEY = 'tokbatch.fileNameSettings';
+
+export const DEFAULT_FILE_NAME_SETTINGS: FileNameSettings = {
+  template: '{title}_{id}',
+  fileSystem: 'universal'
+};
+
+export const FILE_NAME_TOKENS = ['author', 'date', 'id', 'title', 'index', 'source'] as const;
+
+export type FileNameContext = Partial<Record<typeof FILE_NAME_TOKENS[number], string>>;
+
+// Titles are capped before the per-file-system limits so names stay readable
+const MAX_TITLE_LENGTH = 80;
+// Room kept for the extension and a " (12)" de-duplication suffix
+const SUFFIX_RESERVE = 16;
+// Windows still trips over full paths longer than MAX_PATH in many tools
+const WINDOWS_MAX_PATH = 240;
+
+const WINDOWS_RESERVED = /^(con|prn|aux|nul|com\d|lpt\d)(\..*)?$/i;
+
+interface ProfileRules {
+  forbidden: RegExp;
+  maxBytes?: number; // UTF-8 bytes per path segment
+  maxUnits?: number; // UTF-16 code units per path segment
+  windowsRules: boolean;
+  caseInsensitive: boolean;
+}
+
+const PROFILES: Record<FileSystemProfile, ProfileRules> = {
+  // Valid on every common file system at once
+  universal: { forbidden: /[<>:"/\\|?*\u0000-\u001f\u007f]/g, maxBytes: 255, maxUnits: 255, windowsRules: true, caseInsensitive: true },
+  windows: { forbidden: /[<>:"/\\|?*\u0000-\u001f]/g, maxUnits: 255, windowsRules: true, caseInsensitive: true },
+  mac: { forbidden: /[:/\u0000]/g, maxUnits: 255, windowsRules: false, caseInsensitive: true },
+  linux: { forbidden: /[/\u0000]/g, maxBytes: 255, windowsRules: false, caseInsensitive: false }
+};
+
+const loadSettings = (): FileNameSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SETTINGS_KEY) || 'null');
+    return stored ? { ...DEFAULT_FILE_NAME_SETTINGS, ...stored } : DEFAULT_FILE_NAME_SETTINGS;
+  } catch {
+    return DEFAULT_FILE_NAME_SETTINGS;
+  }
+};
+
+let currentSettings: FileNameSettings = typeof localStorage !== 'undefined' ? loadSettings() : DEFAULT_FILE_NAME_SETTINGS;
+
+export const getFileNameSettings = () => currentSettings;
+
+export const saveFileNameSettings = (settings: FileNameSettings) => {
+  currentSettings = settings;
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch (err) {
+    console.warn("Could not save file name settings:", err);
+  }
+};
+
+const utf8Length = (text: string) => new TextEncoder().encode(text).length;
+
+// Cut by whole code points so emoji and CJK characters are never split in half
+const truncate = (text: string, rules: ProfileRules, reserve = 0) => {
+  let result = '';
+  for (const char of Array.from(text)) {
+    const next = result + char;
+    if (rules.maxUnits && next.length > rules.maxUnits - reserve) break;
+    if (rules.maxBytes && utf8Length(next) > rules.maxBytes - reserve) break;
+    result = next;
+  }
+  return result;
+};
+
+// Unicode-safe: letters in any script are kept, only characters the
+// target file system rejects are replaced
+export const sanitizeSegment = (segment: string, fileSystem: FileSystemProfile, reserve = 0) => {
+  const rules = PROFILES[fileSystem];
+  let clean = segment
+    .normalize('NFC')
+    .replace(rules.forbidden, '_')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  clean = truncate(clean, rules, reserve);
+
+  if (rules.windowsRules) {
+    clean = clean.replace(/[. ]+$/, '');
+    if (WINDOWS_RESERVED.test(clean)) clean = `_${clean}`;
+  }
+  if (clean === '' || clean === '.' || clean === '..') clean = '_';
+  return clean;
+};
+
+export const authorFromUrl = (url: string) => url.match(/tiktok\.com\/@([^/?#]+)/i)?.[1];
+
+// Soundtracks are named after the sound ("Title - Artist") instead of the post
+export const fileNameContext = (task: VideoTask, index?: number, mediaType: MediaType = 'video'): FileNameContext => ({
+  id: task.videoId || task.id,
+  title: mediaType === 'audio' && task.metadata?.music?.title
+    ? [task.metadata.music.title, task.metadata.music.author].filter(Boolean).join(' - ')
+    : task.title,
+  author: task.metadata?.author?.uniqueId || authorFromUrl(task.url),
+  date: task.metadata?.createTime ? new Date(task.metadata.createTime * 1000).toISOString().slice(0, 10) : undefined,
+  index: index !== undefined ? String(index + 1).padStart(3, '0') : undefined,
+  source: task.source
+});
+
+const tokenValue = (token: string, context: FileNameContext) => {
+  switch (token) {
+    case 'title':
+      return Array.from(context.title || `video_${context.id}`).slice(0, MAX_TITLE_LENGTH).join('');
+    case 'author':
+    case 'date':
+      return context[token] || 'unknown';
+    default:
+      return context[token as keyof FileNameContext] || '';
+  }
+};
+
+// Render a template into a relative path ('/' separated) including the extension.
+// Every folder and the file name are sanitized for the selected file system.
+export const renderFileName = (
+  context: FileNameContext,
+  extension: string,
+  settings: FileNameSettings = currentSettings
+) => {
+  const rendered = (settings.template || DEFAULT_FILE_NAME_SETTINGS.template)
+    .replace(/\{(\w+)\}/g, (match, token) =>
+      // Slashes inside values must not create folders; only the template's own do
+      (FILE_NAME_TOKENS as readonly string[]).includes(token) ? tokenValue(token, context).replace(/[/\\]/g, '_') : match
+    );
+
+  const segments = rendered.split(/[/\\]+/).map(s => s.trim()).filter(s => s.length > 0);
+  const fileBase = segments.pop() || `video_${context.id}`;
+  const folders = segments.map(s => sanitizeSegment(s, settings.fileSystem));
+  let fileName = sanitizeSegment(fileBase, settings.fileSystem, SUFFIX_RESERVE);
+
+  if (PROFILES[settings.fileSystem].windowsRules) {
+    const folderLength = folders.reduce((sum, f) => sum + f.length + 1, 0);
+    const room = WINDOWS_MAX_PATH - folderLength - SUFFIX_RESERVE;
+    if (fileName.length > room) fileName = sanitizeSegment(Array.from(fileName).slice(0, Math.max(room, 8)).join(''), settings.fileSystem);
+  }
+
+  return [...folders, `${fileName}.${extension}`].join('/');
+};
+
+// Top-level folder for archive grouping ('none' has no folder), sanitized like any segment
+export const groupFolderName = (
+  context: FileNameContext,
+  grouping: ArchiveGrouping,
+  settings: FileNameSettings = currentSettings
+) => {
+  const value = grouping === 'author' ? (context.author ? `@${context.author}` : 'unknown_author')
+    : grouping === 'date' ? context.date || 'unknown_date'
+    : grouping === 'source' ? context.source || 'unknown_source'
+    : '';
+  return value ? sanitizeSegment(value.replace(/[/\\]/g, '_'), settings.fileSystem) : '';
+};
+
+// Same as renderFileName, for a per-post folder (slideshow images) instead of a file
+export const renderFolderName = (context: FileNameContext, settings: FileNameSettings = currentSettings) =>
+  renderFileName(context, 'dir', settings).replace(/\.dir$/, '');
+
+// Hands out unique paths within one archive or folder: "name.mp4", "name (2).mp4", ...
+export const createNameAllocator = (fileSystem: FileSystemProfile = currentSettings.fileSystem) => {
+  const taken = new Set<string>();
+  const keyOf = (path: string) => PROFILES[fileSystem].caseInsensitive ? path.toLowerCase() : path;
+
+  // Folder paths have no extension, so dots in their names are left alone
+  return (path: string, isFolder = false) => {
+    const dot = path.lastIndexOf('.');
+    const hasExtension = !isFolder && dot > path.lastIndexOf('/');
+    const base = hasExtension ? path.slice(0, dot) : path;
+    const extension = hasExtension ? path.slice(dot) : '';
+
+    let candidate = path;
+    for (let n = 2; taken.has(keyOf(candidate)); n++) {
+      candidate = `${base} (${n})${extension}`;
+    }
+    taken.add(keyOf(candidate));
+    return candidate;
+  };
+};
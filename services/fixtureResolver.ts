@@ -0,0 +1,49 @@
+import { ProfilePostsPage, ResolvedVideo, VideoResolver } from '../types';
+import { USER_POSTS_PAGE_SIZE, parseTikwmResponse, parseTikwmUserPosts } from './tikwmResolver';
+
+export interface FixtureResolverOptions {
+  // Local stand-in server answering `GET {baseUrl}/api/?url=...` in TikWM format
+  baseUrl?: string;
+  // In-memory fixtures keyed by the original URL or the numeric video ID
+  fixtures?: Record<string, ResolvedVideo>;
+  // In-memory profile listings keyed by username (without the @), served as a single page
+  profiles?: Record<string, ProfilePostsPage['posts']>;
+}
+
+const extractVideoId = (url: string) => url.match(/\/(?:video|photo)\/(\d+)/)?.[1];
+
+// Offline provider for development and testing. It never goes through the public
+// CORS proxies, so it keeps working when the real APIs are down.
+export const createFixtureResolver = ({ baseUrl, fixtures = {}, profiles = {} }: FixtureResolverOptions = {}): VideoResolver => ({
+  name: 'fixture',
+  resolve: async (url: string, signal?: AbortSignal) => {
+    const videoId = extractVideoId(url);
+    const fixture = fixtures[url] || (videoId ? fixtures[videoId] : undefined);
+    if (fixture) return fixture;
+
+    if (!baseUrl) {
+      throw new Error('No fixture found for this link.');
+    }
+
+    const response = await fetch(`${baseUrl.replace(/\/+$/, '')}/api/?url=${encodeURIComponent(url)}`, { signal });
+    if (!response.ok) {
+      throw new Error(`Fixture server responded with ${response.status}`);
+    }
+    return parseTikwmResponse(await response.json());
+  },
+  listUserPosts: async (username: string, cursor = '0', signal?: AbortSignal) => {
+    const fixture = profiles[username.toLowerCase()];
+    if (fixture) return { posts: fixture, hasMore: false };
+
+    if (!baseUrl) {
+      throw new Error('No fixture found for this profile.');
+    }
+
+    const query = `unique_id=${encodeURIComponent(`@${username}`)}&count=${USER_POSTS_PAGE_SIZE}&cursor=${encodeURIComponent(cursor)}`;
+    const response = await fetch(`${baseUrl.replace(/\/+$/, '')}/api/user/posts?${query}`, { signal });
+    if (!response.ok) {
+      throw new Error(`Fixture server responded with ${response.status}`);
+    }
+    return parseTikwmUserPosts(await response.json(), username);
+  }
+});
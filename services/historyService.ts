@@ -0,0 +1,119 @@
+import { HistoryEntry, VideoTask } from '../types';
+import { clearHistory, loadHistory, putHistoryEntries } from './storageService';
+import { authorFromUrl } from './fileNaming';
+
+const SKIP_DOWNLOADED_KEY = 'tokbatch.skipDownloaded';
+const LEDGER_VERSION = 1;
+
+export const loadSkipDownloaded = (): boolean => {
+  try {
+    return localStorage.getItem(SKIP_DOWNLOADED_KEY) === 'true';
+  } catch {
+    return false;
+  }
+};
+
+export const saveSkipDownloaded = (skip: boolean) => {
+  try {
+    localStorage.setItem(SKIP_DOWNLOADED_KEY, String(skip));
+  } catch (err) {
+    console.warn("Could not save skip setting:", err);
+  }
+};
+
+// Ledger entry for a task that was just saved; tasks without a video ID can't be tracked
+export const historyEntryFor = (task: VideoTask, downloadedAt = Date.now()): HistoryEntry | undefined =>
+  task.videoId ? {
+    videoId: task.videoId,
+    url: task.url,
+    title: task.title,
+    author: task.metadata?.author?.uniqueId || authorFromUrl(task.url),
+    fileName: task.fileName,
+    quality: task.savedQuality,
+    mediaType: task.savedMediaType,
+    downloadedAt
+  } : undefined;
+
+const isHistoryEntry = (value: any): value is HistoryEntry =>
+  !!value && typeof value.videoId === 'string' && /^\d+$/.test(value.videoId) &&
+  typeof value.url === 'string' && typeof value.downloadedAt === 'number';
+
+// Shareable file: `{ version, exportedAt, entries }`
+export const historyToJson = (entries: HistoryEntry[]) =>
+  JSON.stringify({ version: LEDGER_VERSION, exportedAt: new Date().toISOString(), entries }, null, 2);
+
+// Accepts an exported ledger or a bare array of entries; malformed entries are dropped
+export const parseHistoryJson = (text: string): HistoryEntry[] => {
+  const parsed = JSON.parse(text);
+  const entries = Array.isArray(parsed) ? parsed : parsed?.entries;
+  if (!Array.isArray(entries)) throw new Error('Not a TokBatch history file.');
+  return entries.filter(isHistoryEntry);
+};
+
+export const matchesHistorySearch = (entry: HistoryEntry, query: string) => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return true;
+  return [entry.videoId, entry.title, entry.author, entry.fileName, entry.url]
+    .some(field => field?.toLowerCase().includes(needle));
+};
+
+// In-memory mirror of the IndexedDB ledger so lookups during intake stay synchronous
+export const createDownloadHistory = () => {
+  const entries = new Map<string, HistoryEntry>();
+  const listeners = new Set<() => void>();
+  let loaded: Promise<void> | null = null;
+
+  const notify = () => listeners.forEach(listener => listener());
+
+  // Keep the newer record when the same video shows up twice (e.g. a teammate's ledger)
+  const merge = (incoming: HistoryEntry[]) => {
+    const changed: HistoryEntry[] = [];
+    for (const entry of incoming) {
+      const existing = entries.get(entry.videoId);
+      if (existing && existing.downloadedAt >= entry.downloadedAt) continue;
+      entries.set(entry.videoId, entry);
+      changed.push(entry);
+    }
+    return changed;
+  };
+
+  const persist = (changed: HistoryEntry[]) => {
+    if (changed.length === 0) return;
+    notify();
+    putHistoryEntries(changed).catch(err => console.warn("Could not save download history:", err));
+  };
+
+  return {
+    load: () => {
+      if (!loaded) {
+        loaded = loadHistory()
+          .then(stored => { if (merge(stored).length > 0) notify(); })
+          .catch(err => console.warn("Could not load download history:", err));
+      }
+      return loaded;
+    },
+    has: (videoId?: string) => !!videoId && entries.has(videoId),
+    // Newest first
+    getEntries: () => [...entries.values()].sort((a, b) => b.downloadedAt - a.downloadedAt),
+    record: (newEntries: HistoryEntry[]) => {
+      persist(merge(newEntries));
+    },
+    // Returns how many entries were new or newer than the local ones
+    importEntries: (imported: HistoryEntry[]) => {
+      const changed = merge(imported);
+      persist(changed);
+      return changed.length;
+    },
+    clear: async () => {
+      entries.clear();
+      notify();
+      await clearHistory();
+    },
+    subscribe: (listener: () => void) => {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    }
+  };
+};
+
+export const downloadHistory = createDownloadHistory();
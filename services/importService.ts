@@ -0,0 +1,67 @@
+import { ImportSection } from '../types';
+import { extractTikTokUrls } from './linkParser';
+
+// Friendlier names for the lists in a TikTok "Download your data" export
+const EXPORT_SECTION_LABELS: Record<string, string> = {
+  'favorite videos': 'Favorite Videos',
+  'like list': 'Liked List',
+  'liked list': 'Liked List',
+  'video browsing history': 'Video Browsing History',
+  'watch history': 'Video Browsing History',
+  'share history': 'Share History'
+};
+
+const labelFor = (path: string[]) => {
+  // Prefer the closest known section name, e.g. Activity > Favorite Videos > FavoriteVideoList
+  for (let i = path.length - 1; i >= 0; i--) {
+    const known = EXPORT_SECTION_LABELS[path[i].toLowerCase()];
+    if (known) return known;
+  }
+  return path.filter(p => !/list$/i.test(p)).pop() || path[path.length - 1] || 'Links';
+};
+
+const linkOf = (item: any): string | undefined => {
+  if (!item || typeof item !== 'object') return undefined;
+  const value = item.Link ?? item.link ?? item.VideoLink ?? item.url;
+  return typeof value === 'string' ? value : undefined;
+};
+
+// Walk the export and collect every array of `{ Date, Link }` items as its own section
+const collectExportSections = (node: any, path: string[], fileName: string, sections: ImportSection[]) => {
+  if (Array.isArray(node)) {
+    const links = node.map(linkOf).filter((l): l is string => !!l && extractTikTokUrls(l).length > 0);
+    if (links.length > 0) {
+      const label = labelFor(path);
+      sections.push({ id: `${fileName}:${path.join('/')}`, label, fileName, links });
+    }
+    return;
+  }
+  if (node && typeof node === 'object') {
+    Object.entries(node).forEach(([key, value]) => collectExportSections(value, [...path, key], fileName, sections));
+  }
+};
+
+// Plain text and CSV: every TikTok URL found anywhere in the file
+const textSection = (text: string, fileName: string): ImportSection[] => {
+  const links = text.split(/\r?\n/).flatMap(extractTikTokUrls);
+  return links.length > 0 ? [{ id: fileName, label: fileName, fileName, links }] : [];
+};
+
+export const parseImportFile = async (file: File): Promise<ImportSection[]> => {
+  const text = await file.text();
+
+  if (/\.json$/i.test(file.name) || file.type === 'application/json') {
+    try {
+      const sections: ImportSection[] = [];
+      collectExportSections(JSON.parse(text), [], file.name, sections);
+      if (sections.length > 0) return sections;
+    } catch (err) {
+      console.warn(`${file.name} is not valid JSON, scanning it as text`, err);
+    }
+  }
+
+  return textSection(text, file.name);
+};
+
+export const parseImportFiles = async (files: File[]): Promise<ImportSection[]> =>
+  (await Promise.all(files.map(parseImportFile))).flat();
@@ -0,0 +1,143 @@
+import { LinkIntakeResult, RejectedLink } from '../types';
+
+// Parsing and canonicalization of TikTok links.
+// Every way of writing the same video maps to one canonical URL and its numeric ID,
+// so duplicates can be spotted before they hit the queue.
+
+export interface ParsedLink {
+  url: string; // Canonical URL, tracking params stripped
+  videoId?: string; // Missing for short links until they are expanded
+  isShortLink: boolean;
+}
+
+// Either the parsed link or the reason it was rejected
+export interface ParseResult {
+  link?: ParsedLink;
+  reason?: string;
+}
+
+// tiktokv.com is the share domain used in "Download your data" exports
+const TIKTOK_HOST = /(^|\.)tiktokv?\.com$/i;
+const SHORT_HOSTS = /^(vm|vt)\.tiktok\.com$/i;
+const URL_IN_TEXT = /(?:https?:\/\/)?(?:[a-z0-9-]+\.)*tiktokv?\.com\/[^\s"'<>,]*/gi;
+
+export const canonicalVideoUrl = (videoId: string, author?: string, kind: 'video' | 'photo' = 'video') =>
+  author
+    ? `https://www.tiktok.com/@${author}/${kind}/${videoId}`
+    : `https://m.tiktok.com/v/${videoId}.html`;
+
+export const parseTikTokUrl = (input: string): ParseResult => {
+  let parsed: URL;
+  try {
+    parsed = new URL(/^https?:\/\//i.test(input) ? input : `https://${input}`);
+  } catch {
+    return { reason: 'Not a valid URL' };
+  }
+
+  if (!TIKTOK_HOST.test(parsed.hostname)) {
+    return { reason: 'Not a TikTok link' };
+  }
+
+  const path = parsed.pathname.replace(/\/+$/, '');
+
+  // vm.tiktok.com/ZMabc123, vt.tiktok.com/ZSabc123, www.tiktok.com/t/ZTabc123
+  const shortCode = SHORT_HOSTS.test(parsed.hostname)
+    ? path.match(/^\/([A-Za-z0-9_-]+)$/)?.[1]
+    : path.match(/^\/t\/([A-Za-z0-9_-]+)$/)?.[1];
+  if (shortCode) {
+    const base = SHORT_HOSTS.test(parsed.hostname) ? `https://${parsed.hostname.toLowerCase()}` : 'https://www.tiktok.com/t';
+    return { link: { url: `${base}/${shortCode}/`, isShortLink: true } };
+  }
+
+  // www.tiktok.com/@user/video/123, www.tiktok.com/@user/photo/123
+  const full = path.match(/^\/@([^/]+)\/(video|photo)\/(\d+)$/);
+  if (full) {
+    const kind = full[2] as 'video' | 'photo';
+    return { link: { url: canonicalVideoUrl(full[3], decodeURIComponent(full[1]), kind), videoId: full[3], isShortLink: false } };
+  }
+
+  // m.tiktok.com/v/123.html, www.tiktok.com/embed/v2/123, www.tiktok.com/video/123,
+  // www.tiktokv.com/share/video/123
+  const bare = path.match(/^\/(?:v\/(\d+)\.html|embed(?:\/v2)?\/(\d+)|(?:share\/)?video\/(\d+))$/);
+  if (bare) {
+    const videoId = bare[1] || bare[2] || bare[3];
+    return { link: { url: canonicalVideoUrl(videoId), videoId, isShortLink: false } };
+  }
+
+  return { reason: 'Not a video link' };
+};
+
+// Pull every TikTok URL out of one line of free text
+export const extractTikTokUrls = (line: string): string[] =>
+  (line.match(URL_IN_TEXT) || []).map(u => u.replace(/[),.;!?]+$/, ''));
+
+// Key used for duplicate detection: the video ID when known, else the canonical URL
+export const dedupeKey = (url: string, videoId?: string) => {
+  if (videoId) return `id:${videoId}`;
+  const result = parseTikTokUrl(url);
+  if (result.link?.videoId) return `id:${result.link.videoId}`;
+  return `url:${result.link ? result.link.url : url}`;
+};
+
+// Turn pasted lines into canonical, de-duplicated links. Short links are expanded through
+// `expandShortLink` (which returns the video ID) so they can be matched against full URLs.
+// When `isDownloaded` is given, videos it reports as already saved are skipped too.
+// `existingKeys` holds the dedupe keys of everything already queued.
+export const prepareLinks = async (
+  lines: string[],
+  existingKeys: Set<string>,
+  expandShortLink: (url: string) => Promise<string | undefined>,
+  isDownloaded?: (videoId: string) => boolean
+): Promise<LinkIntakeResult> => {
+  const rejected: RejectedLink[] = [];
+  const candidates: { input: string; link: ParsedLink }[] = [];
+
+  for (const line of lines.map(l => l.trim()).filter(l => l.length > 0)) {
+    const urls = extractTikTokUrls(line);
+    if (urls.length === 0) {
+      rejected.push({ input: line, reason: 'No TikTok link found' });
+      continue;
+    }
+    for (const input of urls) {
+      const result = parseTikTokUrl(input);
+      if (result.link) candidates.push({ input, link: result.link });
+      else rejected.push({ input, reason: result.reason });
+    }
+  }
+
+  // Expand short links in parallel; the resolver's scheduler keeps the pace
+  const expanded = await Promise.all(candidates.map(async ({ input, link }) => {
+    if (!link.isShortLink) return { input, link };
+    try {
+      const videoId = await expandShortLink(link.url);
+      if (!videoId) return { input, link: null };
+      return { input, link: { url: canonicalVideoUrl(videoId), videoId, isShortLink: false } };
+    } catch (err) {
+      console.warn(`Could not expand short link ${link.url}: ${(err as Error)?.message || err}`);
+      return { input, link: null };
+    }
+  }));
+
+  const seen = new Set(existingKeys);
+  const accepted: ParsedLink[] = [];
+
+  for (const { input, link } of expanded) {
+    if (!link) {
+      rejected.push({ input, reason: 'Short link could not be expanded' });
+      continue;
+    }
+    const key = dedupeKey(link.url, link.videoId);
+    if (seen.has(key)) {
+      rejected.push({ input, reason: existingKeys.has(key) ? 'Already in queue' : 'Duplicate link', duplicate: true });
+      continue;
+    }
+    seen.add(key);
+    if (isDownloaded && link.videoId && isDownloaded(link.videoId)) {
+      rejected.push({ input, reason: 'Already downloaded', duplicate: true });
+      continue;
+    }
+    accepted.push(link);
+  }
+
+  return { accepted, rejected };
+};
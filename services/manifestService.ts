@@ -0,0 +1,52 @@
+import { ArchiveVolume, BatchManifest, ManifestEntry, VideoTask } from '../types';
+
+const CSV_COLUMNS: (keyof ManifestEntry)[] = [
+  'url', 'videoId', 'source', 'title', 'author', 'createdAt', 'duration', 'status', 'errorKind', 'errorMessage', 'fileName', 'fileSize', 'postType', 'imageCount', 'mediaType', 'quality', 'sha256'
+];
+
+// A single file's hash as is; slideshow files as "01.jpg:<hash> 02.jpg:<hash> ..."
+const checksumField = (task: VideoTask) => {
+  const checksums = task.checksums || [];
+  if (checksums.length <= 1) return checksums[0]?.sha256;
+  return checksums.map(c => `${c.path.split('/').pop()}:${c.sha256}`).join(' ');
+};
+
+export const buildManifest = (tasks: VideoTask[], volumes?: ArchiveVolume[]): BatchManifest => ({
+  generatedAt: new Date().toISOString(),
+  totalTasks: tasks.length,
+  entries: tasks.map(task => ({
+    url: task.url,
+    videoId: task.videoId,
+    source: task.source,
+    title: task.title,
+    author: task.metadata?.author?.uniqueId,
+    createdAt: task.metadata?.createTime ? new Date(task.metadata.createTime * 1000).toISOString() : undefined,
+    duration: task.metadata?.duration,
+    status: task.status,
+    errorKind: task.errorKind,
+    errorMessage: task.errorMessage,
+    fileName: task.fileName,
+    fileSize: task.fileSize,
+    postType: task.postType,
+    imageCount: task.images?.length,
+    mediaType: task.savedMediaType,
+    quality: task.savedQuality,
+    sha256: checksumField(task)
+  })),
+  volumes
+});
+
+export const manifestToJson = (manifest: BatchManifest) => JSON.stringify(manifest, null, 2);
+
+const escapeCsv = (value: unknown) => {
+  if (value === undefined || value === null) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// The BOM makes Excel open the file as UTF-8, which matters for non-Latin titles
+export const manifestToCsv = (manifest: BatchManifest) =>
+  '\uFEFF' + [
+    CSV_COLUMNS.join(','),
+    ...manifest.entries.map(entry => CSV_COLUMNS.map(column => escapeCsv(entry[column])).join(','))
+  ].join('\r\n');
@@ -0,0 +1,79 @@
+import { ProfileFilters, ProfilePost, VideoResolver } from '../types';
+import { throwIfAborted } from '../utils/abort';
+
+// Stop paging after this many posts so a runaway cursor can't loop forever
+export const MAX_PROFILE_POSTS = 5000;
+
+const USERNAME = /^[A-Za-z0-9_.]{1,24}$/;
+
+// Accepts "@name", "name" or a profile URL like https://www.tiktok.com/@name?lang=en.
+// Returns the username without the @, or undefined when the input isn't a profile.
+export const parseProfileInput = (input: string): string | undefined => {
+  const text = input.trim();
+  const fromUrl = text.match(/tiktok\.com\/@([^/?#\s]+)/i)?.[1];
+  const candidate = (fromUrl ? decodeURIComponent(fromUrl) : text).replace(/^@/, '');
+  return USERNAME.test(candidate) ? candidate : undefined;
+};
+
+export interface ProfileScanOptions {
+  signal?: AbortSignal;
+  // Called after every page with everything collected so far
+  onPage?: (posts: ProfilePost[]) => void;
+  // Wraps each page request, e.g. to run it through the rate-limited scheduler
+  runRequest?: <T>(request: (signal?: AbortSignal) => Promise<T>) => Promise<T>;
+}
+
+// Walk a creator's post listing page by page until the provider runs out of cursors.
+// Posts repeated across pages (TikTok does this for pinned posts) are kept once.
+export const scanProfile = async (
+  resolver: VideoResolver,
+  username: string,
+  { signal, onPage, runRequest = (request) => request(signal) }: ProfileScanOptions = {}
+): Promise<ProfilePost[]> => {
+  if (!resolver.listUserPosts) {
+    throw new Error('The configured resolver cannot list profile posts.');
+  }
+
+  const posts: ProfilePost[] = [];
+  const seen = new Set<string>();
+  let cursor: string | undefined;
+
+  while (posts.length < MAX_PROFILE_POSTS) {
+    throwIfAborted(signal);
+    const page = await runRequest(s => resolver.listUserPosts!(username, cursor, s));
+
+    for (const post of page.posts) {
+      if (seen.has(post.videoId)) continue;
+      seen.add(post.videoId);
+      posts.push(post);
+    }
+    onPage?.(posts.slice());
+
+    // A cursor that doesn't move would page forever
+    if (!page.hasMore || !page.cursor || page.cursor === cursor) break;
+    cursor = page.cursor;
+  }
+
+  return posts;
+};
+
+// Oldest and newest upload time among the posts that have one
+export const profileDateRange = (posts: ProfilePost[]) => {
+  const times = posts.map(p => p.createTime).filter((t): t is number => t !== undefined);
+  if (times.length === 0) return undefined;
+  return { oldest: Math.min(...times), newest: Math.max(...times) };
+};
+
+// Apply the date range, then keep the newest `maxCount` posts.
+// Posts without an upload time only pass when no date bounds are set.
+export const filterProfilePosts = (posts: ProfilePost[], { since, until, maxCount }: ProfileFilters) => {
+  const inRange = posts.filter(post => {
+    if (since === undefined && until === undefined) return true;
+    if (post.createTime === undefined) return false;
+    if (since !== undefined && post.createTime < since) return false;
+    if (until !== undefined && post.createTime > until) return false;
+    return true;
+  });
+  const newestFirst = [...inRange].sort((a, b) => (b.createTime || 0) - (a.createTime || 0));
+  return maxCount && maxCount > 0 ? newestFirst.slice(0, maxCount) : newestFirst;
+};
@@ -0,0 +1,179 @@
+import { ProxyStats, ProxyStrategy } from '../types';
+
+const CUSTOM_PROXIES_KEY = 'tokbatch.customProxies';
+
+// Circuit breaker: trip after this many failures in a row, then back off
+const TRIP_THRESHOLD = 3;
+const BASE_COOLDOWN_MS = 60_000;
+const MAX_COOLDOWN_MS = 10 * 60_000;
+// Weight of the newest sample in the latency moving average
+const LATENCY_SMOOTHING = 0.3;
+
+const BUILT_IN_STRATEGIES: ProxyStrategy[] = [
+  // 1. CorsProxy.io - Fast, usually reliable
+  { id: 'corsproxy', label: 'corsproxy.io', buildUrl: (u) => `https://corsproxy.io/?${encodeURIComponent(u)}` },
+  // 2. AllOrigins Raw - Good for direct data
+  { id: 'allorigins', label: 'AllOrigins (raw)', buildUrl: (u) => `https://api.allorigins.win/raw?url=${encodeURIComponent(u)}` },
+  // 3. CodeTabs - Excellent for binaries/videos
+  { id: 'codetabs', label: 'CodeTabs', buildUrl: (u) => `https://api.codetabs.com/v1/proxy?quest=${encodeURIComponent(u)}` },
+  // 4. Direct (Try as last resort, some CDNs allow it)
+  { id: 'direct', label: 'Direct', buildUrl: (u) => u }
+];
+
+// `{url}` is replaced with the encoded target URL, `{rawUrl}` with the URL as is
+export const isValidProxyTemplate = (template: string) =>
+  /^https?:\/\/\S+$/i.test(template) && (template.includes('{url}') || template.includes('{rawUrl}'));
+
+const strategyFromTemplate = (template: string): ProxyStrategy => ({
+  id: `custom:${template}`,
+  label: template.replace(/^https?:\/\//i, '').split(/[/?]/)[0],
+  template,
+  buildUrl: (u) => template.split('{url}').join(encodeURIComponent(u)).split('{rawUrl}').join(u)
+});
+
+const loadCustomTemplates = (): string[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(CUSTOM_PROXIES_KEY) || '[]');
+    return Array.isArray(stored) ? stored.filter(t => typeof t === 'string' && isValidProxyTemplate(t)) : [];
+  } catch {
+    return [];
+  }
+};
+
+const saveCustomTemplates = (templates: string[]) => {
+  try {
+    localStorage.setItem(CUSTOM_PROXIES_KEY, JSON.stringify(templates));
+  } catch (err) {
+    console.warn("Could not save custom proxies:", err);
+  }
+};
+
+// Laplace-smoothed success rate with a small latency penalty, higher is better
+const scoreOf = (stats: ProxyStats) => {
+  const successRate = (stats.successes + 1) / (stats.successes + stats.failures + 2);
+  const latencyPenalty = stats.avgLatencyMs ? Math.min(stats.avgLatencyMs / 20000, 0.25) : 0;
+  return successRate - latencyPenalty;
+};
+
+export const createProxyManager = () => {
+  // Self-hosted proxies go first: they are the most trusted until proven otherwise
+  let customTemplates = typeof localStorage !== 'undefined' ? loadCustomTemplates() : [];
+  const stats = new Map<string, ProxyStats>();
+  const trips = new Map<string, number>();
+  const listeners = new Set<() => void>();
+  // Outside the browser there is no CORS, so going direct is the natural first choice
+  let directFirst = false;
+
+  const allStrategies = () => [...customTemplates.map(strategyFromTemplate), ...BUILT_IN_STRATEGIES];
+
+  const statsFor = (strategy: ProxyStrategy): ProxyStats => {
+    let entry = stats.get(strategy.id);
+    if (!entry) {
+      entry = {
+        id: strategy.id,
+        label: strategy.label,
+        custom: !!strategy.template,
+        successes: 0,
+        failures: 0,
+        consecutiveFailures: 0
+      };
+      stats.set(strategy.id, entry);
+    }
+    return entry;
+  };
+
+  const notify = () => listeners.forEach(listener => listener());
+
+  const update = (id: string, change: (entry: ProxyStats) => ProxyStats) => {
+    const strategy = allStrategies().find(s => s.id === id);
+    if (!strategy) return;
+    stats.set(id, change(statsFor(strategy)));
+    notify();
+  };
+
+  return {
+    // Healthy strategies best-first, then tripped ones whose cooldown has run out
+    // (half-open: they get one more chance). If everything is tripped, try them all
+    // anyway rather than failing without a single request.
+    getOrderedStrategies: (): ProxyStrategy[] => {
+      const now = Date.now();
+      const strategies = allStrategies();
+      const available = strategies.filter(s => !((statsFor(s).trippedUntil ?? 0) > now));
+      const pool = available.length > 0 ? available : strategies;
+      // Stable sort keeps the configured order between equally scored strategies
+      const ordered = [...pool].sort((a, b) => scoreOf(statsFor(b)) - scoreOf(statsFor(a)));
+      return directFirst ? [...ordered.filter(s => s.id === 'direct'), ...ordered.filter(s => s.id !== 'direct')] : ordered;
+    },
+
+    setDirectFirst: (enabled: boolean) => {
+      directFirst = enabled;
+    },
+
+    recordSuccess: (id: string, latencyMs: number) => {
+      trips.delete(id);
+      update(id, entry => ({
+        ...entry,
+        successes: entry.successes + 1,
+        consecutiveFailures: 0,
+        trippedUntil: undefined,
+        avgLatencyMs: entry.avgLatencyMs === undefined
+          ? latencyMs
+          : entry.avgLatencyMs * (1 - LATENCY_SMOOTHING) + latencyMs * LATENCY_SMOOTHING
+      }));
+    },
+
+    recordFailure: (id: string) => {
+      update(id, entry => {
+        const consecutiveFailures = entry.consecutiveFailures + 1;
+        // Still marked tripped (no success since): the half-open trial failed, so trip right away
+        const isHalfOpen = entry.trippedUntil !== undefined;
+        if (consecutiveFailures < TRIP_THRESHOLD && !isHalfOpen) {
+          return { ...entry, failures: entry.failures + 1, consecutiveFailures };
+        }
+        // Each repeated trip doubles the cooldown
+        const tripCount = (trips.get(id) || 0) + 1;
+        trips.set(id, tripCount);
+        const cooldown = Math.min(BASE_COOLDOWN_MS * Math.pow(2, tripCount - 1), MAX_COOLDOWN_MS);
+        return { ...entry, failures: entry.failures + 1, consecutiveFailures: 0, trippedUntil: Date.now() + cooldown };
+      });
+    },
+
+    getStats: (): ProxyStats[] => allStrategies().map(statsFor),
+
+    getCustomTemplates: () => customTemplates,
+
+    addCustomTemplate: (template: string) => {
+      const trimmed = template.trim();
+      if (!isValidProxyTemplate(trimmed)) {
+        throw new Error('Template must be an http(s) URL containing {url} or {rawUrl}.');
+      }
+      if (customTemplates.includes(trimmed)) return;
+      customTemplates = [...customTemplates, trimmed];
+      saveCustomTemplates(customTemplates);
+      notify();
+    },
+
+    removeCustomTemplate: (template: string) => {
+      customTemplates = customTemplates.filter(t => t !== template);
+      stats.delete(`custom:${template}`);
+      saveCustomTemplates(customTemplates);
+      notify();
+    },
+
+    resetStats: () => {
+      stats.clear();
+      trips.clear();
+      notify();
+    },
+
+    subscribe: (listener: () => void) => {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    }
+  };
+};
+
+export type ProxyManager = ReturnType<typeof createProxyManager>;
+
+// Shared by every fetch in the app so health is tracked across the whole session
+export const proxyManager = createProxyManager();
@@ -0,0 +1,272 @@
+import { AttemptOutcome, FetchAttempt, TransferProgress } from '../types';
+import { proxyManager } from './proxyManager';
+import { createAbortError, throwIfAborted } from '../utils/abort';
+import { InvalidContentError, TaskError } from './errors';
+import { describeTarget } from './diagnosticsService';
+import { createSha256 } from '../utils/sha256';
+
+export interface FetchOptions {
+  // Called while a blob streams in (throttled); not used for JSON
+  onProgress?: (progress: TransferProgress) => void;
+  // Cancels the whole call, including the attempt in flight
+  signal?: AbortSignal;
+  // Blobs only: return why a response isn't the expected content, so the next proxy is tried.
+  // `checkHeader` sees the first bytes as soon as they arrive, `validate` the complete body.
+  checkHeader?: (header: Uint8Array, contentType: string) => string | undefined;
+  validate?: (blob: Blob) => string | undefined;
+  // Told about every proxy attempt, successful or not (cancelled ones excepted)
+  onAttempt?: (attempt: FetchAttempt) => void;
+}
+
+const PROGRESS_INTERVAL_MS = 250;
+// JSON requests must finish within this; blob downloads may not stall for longer than theirs
+const JSON_TIMEOUT_MS = 8000;
+const BLOB_STALL_TIMEOUT_MS = 15000;
+// Leading bytes handed to `checkHeader`; enough for any file signature
+const HEADER_BYTES = 16;
+
+// A downloaded file and the SHA-256 of its bytes
+export interface FetchedBlob {
+  blob: Blob;
+  sha256: string;
+}
+
+// Read a response body chunk by chunk, reporting bytes received against Content-Length.
+// `onChunk` lets the caller reset its stall timeout whenever data arrives. The body is hashed
+// as it streams in, and a rejected header ends the read before the rest is downloaded.
+// Returns the file, or why it isn't acceptable.
+const readBodyWithProgress = async (
+  response: Response,
+  onProgress: (progress: TransferProgress) => void,
+  onChunk: () => void,
+  { checkHeader, validate }: FetchOptions
+): Promise<{ file?: FetchedBlob; problem?: string }> => {
+  const totalHeader = Number(response.headers.get('Content-Length'));
+  const totalBytes = totalHeader > 0 ? totalHeader : undefined;
+  const contentType = response.headers.get('Content-Type') || '';
+
+  const chunks: Uint8Array[] = [];
+  const hash = createSha256();
+  const startedAt = Date.now();
+  let receivedBytes = 0;
+  let lastReportAt = 0;
+  let headerChecked = !checkHeader;
+
+  const accept = (chunk: Uint8Array) => {
+    chunks.push(chunk);
+    hash.update(chunk);
+    receivedBytes += chunk.length;
+  };
+
+  // Fewer than HEADER_BYTES only when the whole body is shorter
+  const checkLeadingBytes = () => {
+    headerChecked = true;
+    const header = new Uint8Array(Math.min(receivedBytes, HEADER_BYTES));
+    let filled = 0;
+    for (const chunk of chunks) {
+      if (filled === header.length) break;
+      const part = chunk.subarray(0, header.length - filled);
+      header.set(part, filled);
+      filled += part.length;
+    }
+    return checkHeader!(header, contentType);
+  };
+
+  const report = (final: boolean) => {
+    const elapsed = (Date.now() - startedAt) / 1000;
+    const bytesPerSecond = elapsed > 0 ? receivedBytes / elapsed : 0;
+    const etaSeconds = final
+      ? 0
+      : totalBytes && bytesPerSecond > 0
+        ? Math.max(0, (totalBytes - receivedBytes) / bytesPerSecond)
+        : undefined;
+    onProgress({ receivedBytes, totalBytes: final ? receivedBytes : totalBytes, bytesPerSecond, etaSeconds });
+  };
+
+  if (response.body) {
+    const reader = response.body.getReader();
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      accept(value);
+      onChunk();
+
+      if (!headerChecked && receivedBytes >= HEADER_BYTES) {
+        const problem = checkLeadingBytes();
+        if (problem) {
+          reader.cancel().catch(() => undefined);
+          return { problem };
+        }
+      }
+
+      if (Date.now() - lastReportAt >= PROGRESS_INTERVAL_MS) {
+        lastReportAt = Date.now();
+        report(false);
+      }
+    }
+  } else {
+    accept(new Uint8Array(await response.arrayBuffer()));
+  }
+
+  report(true);
+  const blob = new Blob(chunks, { type: contentType });
+  const problem = (headerChecked ? undefined : checkLeadingBytes()) || validate?.(blob);
+  return problem ? { problem } : { file: { blob, sha256: hash.digestHex() } };
+};
+
+// Helper: Try multiple proxies to fetch data (JSON or Blob)
+// This solves the "Failed to fetch" error by having backups.
+// Blobs come back as a FetchedBlob, hashed while they downloaded.
+export const fetchWithProxies = async (targetUrl: string, type: 'json' | 'blob', options: FetchOptions = {}): Promise<any> => {
+  const { signal } = options;
+  throwIfAborted(signal);
+  const target = describeTarget(targetUrl);
+  const urlKind = type === 'json' ? 'api' : 'media';
+  // Reported when every proxy answered but none with acceptable content
+  let invalidReason: string | undefined;
+  // Tallies that decide which kind of error is thrown when nothing worked
+  let attempts = 0;
+  let timeouts = 0;
+  // Strategies that got a 403/410 for a blob. Signed CDN URLs answer that once they expire,
+  // but a public proxy may also refuse on its own (rate limit, blocklist). It only counts as
+  // the target refusing when the direct request or a second strategy agrees; otherwise the
+  // refusing proxies are penalised like any other failure.
+  const refusedBy: string[] = [];
+  const isTargetRefusal = () => refusedBy.includes('direct') || refusedBy.length >= 2;
+
+  // Strategies come ordered by session health; tripped ones are skipped
+  for (const strategy of proxyManager.getOrderedStrategies()) {
+    // The listener below misses a cancel that landed between attempts (e.g. during validation)
+    throwIfAborted(signal);
+    const controller = new AbortController();
+    let timedOut = false;
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
+    attempts++;
+    const startedAt = Date.now();
+    let status: number | undefined;
+    const record = (outcome: AttemptOutcome, detail?: string) => options.onAttempt?.({
+      at: startedAt, strategy: strategy.label, urlKind, target, status, latencyMs: Date.now() - startedAt, outcome, detail
+    });
+    // Cancelling the caller's signal aborts the attempt in flight
+    const abortAttempt = () => controller.abort();
+    signal?.addEventListener('abort', abortAttempt);
+
+    try {
+      const url = strategy.buildUrl(targetUrl);
+      // 15s timeout for video blobs, 8s for JSON.
+      // For blobs it is a stall timeout: it restarts whenever a chunk arrives.
+      const timeoutMs = type === 'blob' ? BLOB_STALL_TIMEOUT_MS : JSON_TIMEOUT_MS;
+      const onTimeout = () => {
+        timedOut = true;
+        controller.abort();
+      };
+      timeoutId = setTimeout(onTimeout, timeoutMs);
+      const resetTimeout = () => {
+        clearTimeout(timeoutId);
+        timeoutId = setTimeout(onTimeout, timeoutMs);
+      };
+
+      const response = await fetch(url, { signal: controller.signal });
+      const latencyMs = Date.now() - startedAt;
+      status = response.status;
+
+      if (!response.ok) {
+        clearTimeout(timeoutId);
+        record('http-error', response.statusText || undefined);
+        // Judged once all strategies had their turn (see refusedBy)
+        if (type === 'blob' && (response.status === 403 || response.status === 410)) {
+          refusedBy.push(strategy.id);
+          continue;
+        }
+        proxyManager.recordFailure(strategy.id);
+        continue;
+      }
+
+      if (type === 'json') {
+         // Still timed: a proxy can send headers and then stall the body
+         const text = await response.text();
+         let parsed: any;
+         try {
+           parsed = JSON.parse(text);
+         } catch {
+           // If text isn't JSON, this proxy might have returned an HTML error page
+           record('parse-error', text.slice(0, 80).trim() || 'Empty response');
+           proxyManager.recordFailure(strategy.id);
+           continue;
+         }
+         record('ok');
+         proxyManager.recordSuccess(strategy.id, latencyMs);
+         return parsed;
+      } else {
+        try {
+          const { file, problem } = await readBodyWithProgress(response, options.onProgress || (() => {}), resetTimeout, options);
+          if (problem) {
+            record('invalid-content', problem);
+            proxyManager.recordFailure(strategy.id);
+            invalidReason = problem;
+            continue;
+          }
+          record('ok');
+          proxyManager.recordSuccess(strategy.id, latencyMs);
+          // Someone got through, so the refusals came from the proxies
+          refusedBy.forEach(id => proxyManager.recordFailure(id));
+          return file;
+        } finally {
+          clearTimeout(timeoutId);
+        }
+      }
+    } catch (err) {
+      // A cancelled call says nothing about the proxy's health
+      if (signal?.aborted) throw createAbortError();
+      if (timedOut) timeouts++;
+      record(timedOut ? 'timeout' : 'network-error', timedOut ? undefined : (err as Error)?.message);
+      proxyManager.recordFailure(strategy.id);
+      continue;
+    } finally {
+      // Also covers a rejected fetch; a pending timer would keep the Node CLI alive
+      clearTimeout(timeoutId);
+      signal?.removeEventListener('abort', abortAttempt);
+    }
+  }
+
+  // Special Fallback for JSON only: AllOrigins /get endpoint
+  // This returns JSON wrapped in { contents: "..." } which bypasses some strict CORS headers
+  if (type === 'json') {
+     const startedAt = Date.now();
+     const record = (outcome: AttemptOutcome, status?: number, detail?: string) => options.onAttempt?.({
+       at: startedAt, strategy: 'AllOrigins /get', urlKind, target, status, latencyMs: Date.now() - startedAt, outcome, detail
+     });
+     const controller = new AbortController();
+     const abortFallback = () => controller.abort();
+     signal?.addEventListener('abort', abortFallback);
+     const timeoutId = setTimeout(abortFallback, JSON_TIMEOUT_MS);
+     try {
+       const res = await fetch(`https://api.allorigins.win/get?url=${encodeURIComponent(targetUrl)}`, { signal: controller.signal });
+       if (!res.ok) record('http-error', res.status);
+       if (res.ok) {
+         const wrapper = await res.json();
+         record(wrapper.contents ? 'ok' : 'parse-error', res.status, wrapper.contents ? undefined : 'No contents');
+         if (wrapper.contents) {
+           // Depending on the API, contents might be stringified JSON or just the string
+           try {
+              return JSON.parse(wrapper.contents);
+           } catch {
+              return wrapper.contents;
+           }
+         }
+       }
+     } catch (e) {
+       if (signal?.aborted) throw createAbortError();
+       record(controller.signal.aborted ? 'timeout' : 'network-error', undefined, controller.signal.aborted ? undefined : (e as Error)?.message);
+     } finally {
+       clearTimeout(timeoutId);
+       signal?.removeEventListener('abort', abortFallback);
+     }
+  }
+
+  if (refusedBy.length > 0 && !isTargetRefusal()) refusedBy.forEach(id => proxyManager.recordFailure(id));
+  if (invalidReason) throw new InvalidContentError(invalidReason);
+  if (isTargetRefusal()) throw new TaskError('expired-url', 'The download link was refused (HTTP 403/410), it has probably expired.');
+  if (attempts > 0 && timeouts === attempts) throw new TaskError('timeout', 'Every proxy timed out.');
+  throw new TaskError('proxies-failed', "All proxies failed to fetch data.");
+};
@@ -0,0 +1,30 @@
+import { extractTikTokUrls } from './linkParser';
+
+// Query parameters the manifest's share_target maps shared data onto.
+// Apps put the link in different places: TikTok on Android sends it inside `text`.
+const SHARE_PARAMS = ['url', 'text', 'title'];
+
+// The worker sits next to index.html, so its default scope is the app's base path.
+// Production builds only: under `vite dev` it would cache the dev server's modules.
+export const registerServiceWorker = () => {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+  window.addEventListener('load', () => {
+    navigator.serviceWorker
+      .register(new URL('sw.js', document.baseURI).href)
+      .catch(err => console.warn("Could not register service worker:", err));
+  });
+};
+
+// TikTok links shared to the installed app. The share parameters are removed from the
+// address bar, so a reload doesn't queue the same links again.
+export const takeSharedLinks = (): string[] => {
+  const params = new URLSearchParams(window.location.search);
+  if (!SHARE_PARAMS.some(name => params.has(name))) return [];
+
+  const links = SHARE_PARAMS.flatMap(name => extractTikTokUrls(params.get(name) || ''));
+  SHARE_PARAMS.forEach(name => params.delete(name));
+  const query = params.toString();
+  window.history.replaceState(null, '', `${window.location.pathname}${query ? `?${query}` : ''}${window.location.hash}`);
+
+  return [...new Set<string>(links)];
+};
@@ -0,0 +1,58 @@
+import { FetchAttempt, ProfilePostsPage, ResolvedVideo, VideoResolver } from '../types';
+import { createTikwmResolver } from './tikwmResolver';
+import { createFixtureResolver } from './fixtureResolver';
+import { isAbortError } from '../utils/abort';
+
+// Wrap an ordered list of providers into a single resolver.
+// Each provider is tried in turn; the first success wins.
+export const createResolverChain = (providers: VideoResolver[]): VideoResolver => ({
+  name: providers.map(p => p.name).join(' > '),
+  resolve: async (url: string, signal?: AbortSignal, onAttempt?: (attempt: FetchAttempt) => void): Promise<ResolvedVideo> => {
+    let lastError: Error | null = null;
+
+    for (const provider of providers) {
+      try {
+        return await provider.resolve(url, signal, onAttempt);
+      } catch (error: any) {
+        // Cancelled: don't fall through to the next provider
+        if (isAbortError(error)) throw error;
+        console.warn(`Resolver "${provider.name}" failed: ${error?.message || error}`);
+        lastError = error;
+      }
+    }
+
+    throw lastError || new Error('No resolver providers configured.');
+  },
+  // Cursors are provider specific, so paging stays with the first provider that can list
+  listUserPosts: async (username: string, cursor?: string, signal?: AbortSignal): Promise<ProfilePostsPage> => {
+    const provider = providers.find(p => p.listUserPosts);
+    if (!provider) throw new Error('None of the configured resolver providers can list profile posts.');
+    return provider.listUserPosts!(username, cursor, signal);
+  }
+});
+
+// Build the chain from a comma separated provider list, e.g. "fixture,tikwm"
+export const createResolverFromList = (providerList: string, fixtureApiUrl?: string): VideoResolver => {
+  const providerFactories: Record<string, () => VideoResolver> = {
+    tikwm: () => createTikwmResolver(),
+    fixture: () => createFixtureResolver({ baseUrl: fixtureApiUrl || undefined })
+  };
+  const names = (providerList || 'tikwm')
+    .split(',')
+    .map(n => n.trim().toLowerCase())
+    .filter(n => n.length > 0);
+
+  const providers = names
+    .filter(name => {
+      if (providerFactories[name]) return true;
+      console.warn(`Unknown resolver provider "${name}" ignored.`);
+      return false;
+    })
+    .map(name => providerFactories[name]());
+
+  return createResolverChain(providers.length > 0 ? providers : [createTikwmResolver()]);
+};
+
+// Configured through RESOLVER_PROVIDERS and FIXTURE_API_URL. Defaults to TikWM only.
+export const createDefaultResolver = (): VideoResolver =>
+  createResolverFromList(process.env.RESOLVER_PROVIDERS || 'tikwm', process.env.FIXTURE_API_URL);
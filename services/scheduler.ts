@@ -0,0 +1,181 @@
+import { SchedulerSettings, SchedulerState } from '../types';
+import { RateLimitError } from './errors';
+import { sleep, throwIfAborted } from '../utils/abort';
+
+const SETTINGS_KEY = 'tokbatch.schedulerSettings';
+
+export const DEFAULT_SCHEDULER_SETTINGS: SchedulerSettings = {
+  concurrency: 2,
+  // TikWM's free tier allows about one request per second
+  maxRatePerSecond: 1
+};
+
+const MIN_RATE_PER_SECOND = 0.1;
+// Speed back up by this factor after this many successes in a row
+const RECOVERY_STREAK = 8;
+const RECOVERY_FACTOR = 1.25;
+// Backoff after a rate limit doubles with each consecutive one
+const BASE_BACKOFF_MS = 2000;
+const MAX_BACKOFF_MS = 60_000;
+const MAX_RATE_LIMIT_RETRIES = 5;
+
+const clampSettings = (settings: SchedulerSettings): SchedulerSettings => ({
+  concurrency: Math.min(Math.max(Math.round(settings.concurrency) || 1, 1), 8),
+  // Only a missing or non-numeric rate falls back to 1; 0 means "as slow as allowed"
+  maxRatePerSecond: Math.min(Math.max(Number.isFinite(settings.maxRatePerSecond) ? settings.maxRatePerSecond : 1, MIN_RATE_PER_SECOND), 10)
+});
+
+const loadSettings = (): SchedulerSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SETTINGS_KEY) || 'null');
+    return stored ? clampSettings({ ...DEFAULT_SCHEDULER_SETTINGS, ...stored }) : DEFAULT_SCHEDULER_SETTINGS;
+  } catch {
+    return DEFAULT_SCHEDULER_SETTINGS;
+  }
+};
+
+const saveSettings = (settings: SchedulerSettings) => {
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch (err) {
+    console.warn("Could not save scheduler settings:", err);
+  }
+};
+
+// Token bucket limiter with adaptive rate plus a bounded worker pool.
+// Rate limits halve the rate and back off exponentially; sustained success
+// creeps the rate back up to the configured maximum.
+export const createScheduler = (initialSettings: SchedulerSettings = DEFAULT_SCHEDULER_SETTINGS) => {
+  let settings = clampSettings(initialSettings);
+  let ratePerSecond = settings.maxRatePerSecond;
+  let tokens = 1;
+  let lastRefill = Date.now();
+  let backoffUntil = 0;
+  let consecutiveRateLimits = 0;
+  let successStreak = 0;
+  let paused = false;
+  let resumeWaiters: (() => void)[] = [];
+  const listeners = new Set<() => void>();
+
+  const notify = () => listeners.forEach(listener => listener());
+
+  const refill = () => {
+    const now = Date.now();
+    // Capacity equals concurrency so an idle limiter can start a full round at once
+    tokens = Math.min(settings.concurrency, tokens + ((now - lastRefill) / 1000) * ratePerSecond);
+    lastRefill = now;
+  };
+
+  // Wait until a request may be sent
+  const acquire = async (signal?: AbortSignal) => {
+    while (true) {
+      throwIfAborted(signal);
+      const now = Date.now();
+      if (backoffUntil > now) {
+        await sleep(backoffUntil - now, signal);
+        continue;
+      }
+      refill();
+      if (tokens >= 1) {
+        tokens -= 1;
+        return;
+      }
+      await sleep(((1 - tokens) / ratePerSecond) * 1000, signal);
+    }
+  };
+
+  const reportSuccess = () => {
+    consecutiveRateLimits = 0;
+    successStreak += 1;
+    if (successStreak >= RECOVERY_STREAK && ratePerSecond < settings.maxRatePerSecond) {
+      ratePerSecond = Math.min(settings.maxRatePerSecond, ratePerSecond * RECOVERY_FACTOR);
+      successStreak = 0;
+      notify();
+    }
+  };
+
+  const reportRateLimited = () => {
+    consecutiveRateLimits += 1;
+    successStreak = 0;
+    ratePerSecond = Math.max(MIN_RATE_PER_SECOND, ratePerSecond / 2);
+    const backoff = Math.min(BASE_BACKOFF_MS * Math.pow(2, consecutiveRateLimits - 1), MAX_BACKOFF_MS);
+    backoffUntil = Math.max(backoffUntil, Date.now() + backoff);
+    tokens = 0;
+    console.warn(`Rate limit hit. Backing off ${backoff / 1000}s, rate now ${ratePerSecond.toFixed(2)} req/s`);
+    notify();
+  };
+
+  const waitWhilePaused = () => paused
+    ? new Promise<void>(resolve => { resumeWaiters.push(resolve); })
+    : Promise.resolve();
+
+  return {
+    // Run one rate-limited call, retrying it when the API reports a limit
+    execute: async <T>(fn: (signal?: AbortSignal) => Promise<T>, signal?: AbortSignal): Promise<T> => {
+      for (let attempt = 0; ; attempt++) {
+        await acquire(signal);
+        try {
+          const result = await fn(signal);
+          reportSuccess();
+          return result;
+        } catch (error) {
+          if (!(error instanceof RateLimitError)) throw error;
+          reportRateLimited();
+          if (attempt >= MAX_RATE_LIMIT_RETRIES) throw error;
+        }
+      }
+    },
+
+    // Feed items to at most `concurrency` workers. Pausing lets running workers
+    // finish but holds back new items; aborting the signal stops picking items.
+    runQueue: async <T>(items: T[], worker: (item: T) => Promise<void>, signal?: AbortSignal) => {
+      const queue = [...items];
+      const next = async (): Promise<void> => {
+        while (queue.length > 0) {
+          await waitWhilePaused();
+          if (signal?.aborted) return;
+          const item = queue.shift();
+          if (item === undefined) return;
+          await worker(item);
+        }
+      };
+      const workerCount = Math.min(settings.concurrency, queue.length);
+      await Promise.all(Array.from({ length: workerCount }, next));
+    },
+
+    pause: () => {
+      paused = true;
+    },
+
+    resume: () => {
+      paused = false;
+      resumeWaiters.forEach(resolve => resolve());
+      resumeWaiters = [];
+    },
+
+    getSettings: () => settings,
+
+    updateSettings: (next: Partial<SchedulerSettings>) => {
+      settings = clampSettings({ ...settings, ...next });
+      ratePerSecond = Math.min(ratePerSecond, settings.maxRatePerSecond);
+      saveSettings(settings);
+      notify();
+    },
+
+    getState: (): SchedulerState => ({
+      ratePerSecond,
+      backoffUntil: backoffUntil > Date.now() ? backoffUntil : undefined,
+      consecutiveRateLimits
+    }),
+
+    subscribe: (listener: () => void) => {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    }
+  };
+};
+
+export type Scheduler = ReturnType<typeof createScheduler>;
+
+// Shared by the batch runner and single retries so they respect one budget
+export const resolveScheduler = createScheduler(typeof localStorage !== 'undefined' ? loadSettings() : DEFAULT_SCHEDULER_SETTINGS);
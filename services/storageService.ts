@@ -0,0 +1,130 @@
+import { HistoryEntry, VideoTask, TaskStatus } from '../types';
+
+const DB_NAME = 'tokbatch';
+const DB_VERSION = 2;
+const TASK_STORE = 'tasks';
+// v2: ledger of finished downloads, keyed by video ID
+const HISTORY_STORE = 'history';
+
+interface StoredTask extends VideoTask {
+  position: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(TASK_STORE)) {
+        db.createObjectStore(TASK_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(HISTORY_STORE)) {
+        db.createObjectStore(HISTORY_STORE, { keyPath: 'videoId' });
+      }
+    };
+    // An upgrade waits until every other tab lets go of the old version. Give up rather
+    // than hang the queue; the next call tries again.
+    let blocked = false;
+    request.onblocked = () => {
+      blocked = true;
+      dbPromise = null;
+      console.warn("Saved queue is unavailable until other TokBatch tabs are closed or reloaded.");
+      reject(new Error('Database upgrade blocked by another open tab'));
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      // Let a newer version in another tab upgrade instead of being blocked by this one
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      // Opened after all, but the caller already moved on
+      if (blocked) {
+        db.close();
+        return;
+      }
+      resolve(db);
+    };
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+};
+
+// Tasks that were mid-flight when the tab died cannot continue where they left off,
+// so they go back to IDLE flagged as resumable and get picked up by the next batch.
+const restoreTask = ({ position, transfer, ...task }: StoredTask): VideoTask => {
+  if (task.status === TaskStatus.DOWNLOADING || task.status === TaskStatus.QUEUED) {
+    return { ...task, status: TaskStatus.IDLE, progress: 0, resumable: true };
+  }
+  return task;
+};
+
+export const loadTasks = async (): Promise<VideoTask[]> => {
+  const db = await openDatabase();
+
+  return new Promise((resolve, reject) => {
+    const request = db.transaction(TASK_STORE, 'readonly').objectStore(TASK_STORE).getAll();
+    request.onsuccess = () => {
+      const stored = request.result as StoredTask[];
+      resolve(stored.sort((a, b) => a.position - b.position).map(restoreTask));
+    };
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Replace the stored queue with the current one in a single transaction
+export const saveTasks = async (tasks: VideoTask[]): Promise<void> => {
+  const db = await openDatabase();
+
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(TASK_STORE, 'readwrite');
+    const store = tx.objectStore(TASK_STORE);
+    store.clear();
+    tasks.forEach((task, position) => store.put({ ...task, position }));
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+};
+
+export const loadHistory = async (): Promise<HistoryEntry[]> => {
+  const db = await openDatabase();
+
+  return new Promise((resolve, reject) => {
+    const request = db.transaction(HISTORY_STORE, 'readonly').objectStore(HISTORY_STORE).getAll();
+    request.onsuccess = () => resolve(request.result as HistoryEntry[]);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Insert or overwrite ledger entries; the video ID is the key
+export const putHistoryEntries = async (entries: HistoryEntry[]): Promise<void> => {
+  const db = await openDatabase();
+
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(HISTORY_STORE, 'readwrite');
+    const store = tx.objectStore(HISTORY_STORE);
+    entries.forEach(entry => store.put(entry));
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+};
+
+export const clearHistory = async (): Promise<void> => {
+  const db = await openDatabase();
+
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(HISTORY_STORE, 'readwrite');
+    tx.objectStore(HISTORY_STORE).clear();
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+};
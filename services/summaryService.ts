@@ -0,0 +1,71 @@
+import { BatchSummary, VideoTask } from '../types';
+import { authorFromUrl, getFileNameSettings, sanitizeSegment } from './fileNaming';
+import { formatBytes, formatDuration } from '../utils/format';
+
+const TOP_COUNT = 5;
+// One author making up at least this share of the batch names the folder
+const DOMINANT_AUTHOR_SHARE = 0.5;
+
+// Unicode aware so non-Latin tags (#日本, #café) are kept whole
+const HASHTAG = /#([\p{L}\p{N}_]+)/gu;
+
+export const extractHashtags = (title: string) =>
+  Array.from(title.matchAll(HASHTAG), match => match[1].toLowerCase());
+
+// Most frequent first; ties keep first-seen order
+const topCounts = (values: string[]) => {
+  const counts = new Map<string, number>();
+  values.forEach(value => counts.set(value, (counts.get(value) || 0) + 1));
+  return [...counts.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, TOP_COUNT);
+};
+
+const authorOf = (task: VideoTask) => task.metadata?.author?.uniqueId || authorFromUrl(task.url);
+
+// e.g. "@creator_24_videos_2026-10-19" or "dance_24_videos_2026-10-19"
+const proposeFolderName = (
+  tasks: VideoTask[],
+  topAuthors: BatchSummary['topAuthors'],
+  topHashtags: BatchSummary['topHashtags']
+) => {
+  const dominant = topAuthors[0] && topAuthors[0].count / tasks.length >= DOMINANT_AUTHOR_SHARE ? topAuthors[0] : undefined;
+  const subject = dominant ? `@${dominant.name}` : topHashtags[0]?.tag || 'TikTok';
+  const name = `${subject}_${tasks.length}_${tasks.length === 1 ? 'video' : 'videos'}_${new Date().toISOString().slice(0, 10)}`;
+  return sanitizeSegment(name, getFileNameSettings().fileSystem);
+};
+
+// Offline overview of a finished batch: who and what it contains, and how big it is
+export const summarizeBatch = (tasks: VideoTask[]): BatchSummary => {
+  const topAuthors = topCounts(tasks.map(authorOf).filter((a): a is string => !!a))
+    .map(([name, count]) => ({ name, count }));
+  const topHashtags = topCounts(tasks.flatMap(t => extractHashtags(t.title || '')))
+    .map(([tag, count]) => ({ tag, count }));
+  const totalDuration = tasks.reduce((sum, t) => sum + (t.metadata?.duration || 0), 0);
+  const totalSize = tasks.reduce((sum, t) => sum + (t.fileSize || 0), 0);
+  const authorCount = new Set<string>(tasks.map(authorOf).filter((a): a is string => !!a)).size;
+
+  const parts = [
+    `${tasks.length} ${tasks.length === 1 ? 'post' : 'posts'} from ${authorCount || 'unknown'} ${authorCount === 1 ? 'creator' : 'creators'}` +
+      (topAuthors[0] && authorCount > 1 ? `, most by @${topAuthors[0].name}` : '') + '.'
+  ];
+  if (totalDuration > 0 || totalSize > 0) {
+    parts.push([
+      totalDuration > 0 ? `${formatDuration(totalDuration)} of video` : '',
+      totalSize > 0 ? `about ${formatBytes(totalSize)}` : ''
+    ].filter(Boolean).join(', ') + '.');
+  }
+  if (topHashtags.length > 0) {
+    parts.push(`Top tags: ${topHashtags.map(h => `#${h.tag}`).join(' ')}.`);
+  }
+
+  return {
+    folderName: proposeFolderName(tasks, topAuthors, topHashtags),
+    description: parts.join(' '),
+    totalVideos: tasks.length,
+    topAuthors,
+    topHashtags,
+    totalDuration,
+    totalSize
+  };
+};
@@ -0,0 +1,153 @@
+import { FetchAttempt, ProfilePostsPage, ResolvedVideo, VideoMetadata, VideoQuality, VideoResolver, VideoVariant } from '../types';
+import { fetchWithProxies } from './proxyService';
+import { describeTarget } from './diagnosticsService';
+import { RateLimitError, TaskError, errorKindFromMessage } from './errors';
+import { canonicalVideoUrl } from './linkParser';
+
+const TIKWM_API = 'https://www.tikwm.com/api/';
+
+const toNumber = (value: any) => {
+  const n = Number(value);
+  return Number.isFinite(n) ? n : undefined;
+};
+
+const toText = (value: any) => (value === undefined || value === null || value === '' ? undefined : String(value));
+
+const parseMetadata = (d: any): VideoMetadata => ({
+  author: d.author ? {
+    id: toText(d.author.id),
+    uniqueId: toText(d.author.unique_id),
+    nickname: toText(d.author.nickname),
+    avatar: toText(d.author.avatar)
+  } : undefined,
+  duration: toNumber(d.duration),
+  createTime: toNumber(d.create_time),
+  region: toText(d.region),
+  music: d.music_info || d.music ? {
+    id: toText(d.music_info?.id),
+    title: toText(d.music_info?.title),
+    author: toText(d.music_info?.author),
+    url: toText(d.music_info?.play) || toText(d.music),
+    cover: toText(d.music_info?.cover),
+    duration: toNumber(d.music_info?.duration),
+    original: d.music_info?.original
+  } : undefined,
+  stats: {
+    plays: toNumber(d.play_count),
+    likes: toNumber(d.digg_count),
+    comments: toNumber(d.comment_count),
+    shares: toNumber(d.share_count),
+    saves: toNumber(d.collect_count),
+    downloads: toNumber(d.download_count)
+  }
+});
+
+const parseVariants = (d: any): VideoVariant[] => {
+  const candidates: [VideoQuality, any, any][] = [
+    ['hd', d.hdplay, d.hd_size],
+    ['standard', d.play, d.size],
+    ['watermarked', d.wmplay, d.wm_size]
+  ];
+  return candidates
+    .filter(([, url]) => typeof url === 'string' && url.length > 0)
+    .map(([quality, url, size]) => ({ quality, url, size: toNumber(size) || undefined }));
+};
+
+// Turn a failed `{ code, msg }` response into a typed error, e.g. "Free Api Limit: 1 request/second."
+// Without a `msg` the response is unexpected (often a mangled proxy reply), so the kind stays unknown.
+const apiError = (data: any, fallback: string) => {
+  const message = typeof data?.msg === 'string' && data.msg ? data.msg : undefined;
+  const kind = errorKindFromMessage(message);
+  return kind === 'rate-limited' ? new RateLimitError(message) : new TaskError(kind, message || fallback);
+};
+
+// Normalize a TikWM style `{ code, data, msg }` response.
+// Shared with the fixture provider, whose stand-in server speaks the same format.
+export const parseTikwmResponse = (data: any): ResolvedVideo => {
+  if (data && data.code === 0 && data.data) {
+    // Photo carousels carry an images array; their `play` is just the soundtrack
+    const images: string[] = Array.isArray(data.data.images)
+      ? data.data.images.filter((u: any) => typeof u === 'string' && u.length > 0)
+      : [];
+    if (images.length > 0) {
+      return {
+        videoId: data.data.id ? String(data.data.id) : undefined,
+        title: data.data.title || `tiktok_photos_${data.data.id}`,
+        thumbnail: data.data.cover || images[0],
+        postType: 'slideshow',
+        images,
+        metadata: parseMetadata(data.data)
+      };
+    }
+
+    return {
+      videoId: data.data.id ? String(data.data.id) : undefined,
+      title: data.data.title || `tiktok_video_${data.data.id}`,
+      thumbnail: data.data.cover,
+      downloadUrl: data.data.play, // MP4 URL
+      size: data.data.size,
+      variants: parseVariants(data.data),
+      postType: 'video',
+      metadata: parseMetadata(data.data)
+    };
+  }
+  throw apiError(data, 'Video not found');
+};
+
+// How many posts TikWM returns per page at most
+export const USER_POSTS_PAGE_SIZE = 35;
+
+// Normalize a TikWM `user/posts` page: `{ data: { videos, cursor, hasMore } }`
+export const parseTikwmUserPosts = (data: any, username: string): ProfilePostsPage => {
+  if (data && data.code === 0 && data.data) {
+    const videos: any[] = Array.isArray(data.data.videos) ? data.data.videos : [];
+    const posts = videos
+      .filter(v => v && (v.video_id || v.id))
+      .map(v => {
+        const videoId = String(v.video_id || v.id);
+        const author = toText(v.author?.unique_id) || username;
+        const kind = Array.isArray(v.images) && v.images.length > 0 ? 'photo' : 'video';
+        return {
+          videoId,
+          url: canonicalVideoUrl(videoId, author, kind),
+          title: toText(v.title),
+          thumbnail: toText(v.cover),
+          createTime: toNumber(v.create_time)
+        };
+      });
+    return {
+      posts,
+      cursor: toText(data.data.cursor),
+      hasMore: !!data.data.hasMore && posts.length > 0
+    };
+  }
+  throw apiError(data, 'Profile not found');
+};
+
+// Rate limits surface as RateLimitError; retrying them is the scheduler's job
+export const createTikwmResolver = (apiBase: string = TIKWM_API): VideoResolver => ({
+  name: 'tikwm',
+  resolve: async (url: string, signal?: AbortSignal, onAttempt?: (attempt: FetchAttempt) => void) => {
+    // hd=1 makes TikWM include the HD rendition (hdplay)
+    const apiUrl = `${apiBase}?url=${encodeURIComponent(url)}&hd=1`;
+
+    // Use the helper to try multiple proxies
+    const startedAt = Date.now();
+    const data = await fetchWithProxies(apiUrl, 'json', { signal, onAttempt });
+    try {
+      return parseTikwmResponse(data);
+    } catch (error: any) {
+      // The request itself went through; the API turned the link down
+      onAttempt?.({
+        at: startedAt, strategy: 'tikwm', urlKind: 'api', target: describeTarget(apiUrl), latencyMs: Date.now() - startedAt,
+        outcome: 'provider-error', detail: error?.message
+      });
+      throw error;
+    }
+  },
+  listUserPosts: async (username: string, cursor = '0', signal?: AbortSignal) => {
+    const apiUrl = `${apiBase}user/posts?unique_id=${encodeURIComponent(`@${username}`)}&count=${USER_POSTS_PAGE_SIZE}&cursor=${encodeURIComponent(cursor)}`;
+    const data = await fetchWithProxies(apiUrl, 'json', { signal });
+    return parseTikwmUserPosts(data, username);
+  }
+});
@@ -0,0 +1,87 @@
+import { ProfilePost, VideoResolver, WatchedProfile, WatchSettings } from '../types';
+import { extractTikTokUrls } from './linkParser';
+import { ProfileScanOptions } from './profileService';
+
+const WATCH_SETTINGS_KEY = 'tokbatch.watchSettings';
+
+// Minutes between checks of each watched profile
+export const WATCH_INTERVALS = [5, 15, 30, 60];
+
+export const DEFAULT_WATCH_SETTINGS: WatchSettings = {
+  clipboard: false,
+  profiles: [],
+  intervalMinutes: 15
+};
+
+export const loadWatchSettings = (): WatchSettings => {
+  try {
+    const raw = localStorage.getItem(WATCH_SETTINGS_KEY);
+    if (!raw) return DEFAULT_WATCH_SETTINGS;
+    const parsed = JSON.parse(raw);
+    return {
+      clipboard: parsed.clipboard === true,
+      profiles: Array.isArray(parsed.profiles)
+        ? parsed.profiles.filter((p: any) => typeof p?.username === 'string')
+        : [],
+      intervalMinutes: WATCH_INTERVALS.includes(parsed.intervalMinutes)
+        ? parsed.intervalMinutes
+        : DEFAULT_WATCH_SETTINGS.intervalMinutes
+    };
+  } catch {
+    return DEFAULT_WATCH_SETTINGS;
+  }
+};
+
+export const saveWatchSettings = (settings: WatchSettings) => {
+  try {
+    localStorage.setItem(WATCH_SETTINGS_KEY, JSON.stringify(settings));
+  } catch (err) {
+    console.warn("Could not save watch settings:", err);
+  }
+};
+
+// Shared by the paste button and the clipboard watcher
+export const readClipboardText = () => navigator.clipboard.readText();
+
+export const clipboardLinks = (text: string) =>
+  [...new Set<string>(text.split(/\r?\n/).flatMap(extractTikTokUrls))];
+
+export const isProfileDue = (profile: WatchedProfile, intervalMinutes: number, now = Date.now()) =>
+  !profile.lastCheckedAt || now - profile.lastCheckedAt >= intervalMinutes * 60 * 1000;
+
+// TikTok video IDs grow over time, so they order posts even when upload times are missing
+const isNewer = (videoId: string, than?: string) => {
+  try {
+    return !than || BigInt(videoId) > BigInt(than);
+  } catch {
+    return false;
+  }
+};
+
+// Check the first page of a watched profile for posts newer than the last check; one page
+// covers any sensible polling interval. The first check only records where the profile
+// stands, so watching someone doesn't queue their whole back catalogue.
+// New posts come back oldest first, the order they were published in.
+export const checkWatchedProfile = async (
+  resolver: VideoResolver,
+  profile: WatchedProfile,
+  runRequest: ProfileScanOptions['runRequest'] = (request) => request()
+): Promise<{ profile: WatchedProfile; newPosts: ProfilePost[] }> => {
+  if (!resolver.listUserPosts) {
+    throw new Error('The configured resolver cannot list profile posts.');
+  }
+
+  const page = await runRequest(signal => resolver.listUserPosts!(profile.username, undefined, signal));
+  const newestVideoId = page.posts.reduce<string | undefined>(
+    (newest, post) => isNewer(post.videoId, newest) ? post.videoId : newest,
+    profile.newestVideoId
+  );
+  const newPosts = profile.newestVideoId
+    ? page.posts.filter(post => isNewer(post.videoId, profile.newestVideoId)).reverse()
+    : [];
+
+  return {
+    profile: { ...profile, newestVideoId, lastCheckedAt: Date.now(), lastError: undefined },
+    newPosts
+  };
+};
@@ -0,0 +1,206 @@
+// Minimal streaming ZIP writer (store only, no compression).
+// Videos are already compressed, so storing them keeps CPU low, and writing each entry
+// straight to the sink means the archive never has to exist in memory as a whole.
+// ZIP64 records are emitted automatically once sizes or offsets pass 4 GB.
+
+export interface ZipSink {
+  write: (chunk: Uint8Array) => Promise<void>;
+  close: () => Promise<void>;
+}
+
+export interface ZipWriter {
+  addFile: (path: string, data: Blob | string, modified?: Date) => Promise<void>;
+  close: () => Promise<void>;
+}
+
+interface CentralEntry {
+  name: Uint8Array;
+  crc: number;
+  size: number;
+  offset: number;
+  time: number;
+  date: number;
+}
+
+const MAX_32 = 0xffffffff;
+const MAX_16 = 0xffff;
+const FLAG_UTF8 = 0x0800;
+const VERSION_DEFAULT = 20;
+const VERSION_ZIP64 = 45;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const updateCrc = (crc: number, chunk: Uint8Array) => {
+  let c = crc ^ MAX_32;
+  for (let i = 0; i < chunk.length; i++) {
+    c = CRC_TABLE[(c ^ chunk[i]) & 0xff] ^ (c >>> 8);
+  }
+  return (c ^ MAX_32) >>> 0;
+};
+
+const toDosDateTime = (d: Date) => ({
+  time: (d.getHours() << 11) | (d.getMinutes() << 5) | Math.floor(d.getSeconds() / 2),
+  date: ((Math.max(d.getFullYear(), 1980) - 1980) << 9) | ((d.getMonth() + 1) << 5) | d.getDate()
+});
+
+const forEachChunk = async (blob: Blob, callback: (chunk: Uint8Array) => Promise<void> | void) => {
+  const reader = blob.stream().getReader();
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    await callback(value);
+  }
+};
+
+const zip64Extra = (fields: number[]) => {
+  const extra = new Uint8Array(4 + fields.length * 8);
+  const view = new DataView(extra.buffer);
+  view.setUint16(0, 0x0001, true);
+  view.setUint16(2, fields.length * 8, true);
+  fields.forEach((value, i) => view.setBigUint64(4 + i * 8, BigInt(value), true));
+  return extra;
+};
+
+const localHeader = (entry: CentralEntry) => {
+  const needsZip64 = entry.size >= MAX_32;
+  const extra = needsZip64 ? zip64Extra([entry.size, entry.size]) : new Uint8Array(0);
+  const header = new Uint8Array(30 + entry.name.length + extra.length);
+  const view = new DataView(header.buffer);
+
+  view.setUint32(0, 0x04034b50, true);
+  view.setUint16(4, needsZip64 ? VERSION_ZIP64 : VERSION_DEFAULT, true);
+  view.setUint16(6, FLAG_UTF8, true);
+  view.setUint16(8, 0, true); // Stored
+  view.setUint16(10, entry.time, true);
+  view.setUint16(12, entry.date, true);
+  view.setUint32(14, entry.crc, true);
+  view.setUint32(18, needsZip64 ? MAX_32 : entry.size, true);
+  view.setUint32(22, needsZip64 ? MAX_32 : entry.size, true);
+  view.setUint16(26, entry.name.length, true);
+  view.setUint16(28, extra.length, true);
+  header.set(entry.name, 30);
+  header.set(extra, 30 + entry.name.length);
+  return header;
+};
+
+const centralHeader = (entry: CentralEntry) => {
+  const sizeOverflow = entry.size >= MAX_32;
+  const offsetOverflow = entry.offset >= MAX_32;
+  const fields = [
+    ...(sizeOverflow ? [entry.size, entry.size] : []),
+    ...(offsetOverflow ? [entry.offset] : [])
+  ];
+  const extra = fields.length > 0 ? zip64Extra(fields) : new Uint8Array(0);
+  const header = new Uint8Array(46 + entry.name.length + extra.length);
+  const view = new DataView(header.buffer);
+  const version = fields.length > 0 ? VERSION_ZIP64 : VERSION_DEFAULT;
+
+  view.setUint32(0, 0x02014b50, true);
+  view.setUint16(4, version, true);
+  view.setUint16(6, version, true);
+  view.setUint16(8, FLAG_UTF8, true);
+  view.setUint16(10, 0, true);
+  view.setUint16(12, entry.time, true);
+  view.setUint16(14, entry.date, true);
+  view.setUint32(16, entry.crc, true);
+  view.setUint32(20, sizeOverflow ? MAX_32 : entry.size, true);
+  view.setUint32(24, sizeOverflow ? MAX_32 : entry.size, true);
+  view.setUint16(28, entry.name.length, true);
+  view.setUint16(30, extra.length, true);
+  // Comment length, disk number, internal and external attributes stay 0
+  view.setUint32(42, offsetOverflow ? MAX_32 : entry.offset, true);
+  header.set(entry.name, 46);
+  header.set(extra, 46 + entry.name.length);
+  return header;
+};
+
+const endRecords = (count: number, cdSize: number, cdOffset: number) => {
+  const needsZip64 = count >= MAX_16 || cdSize >= MAX_32 || cdOffset >= MAX_32;
+  const zip64Length = needsZip64 ? 56 + 20 : 0;
+  const records = new Uint8Array(zip64Length + 22);
+  const view = new DataView(records.buffer);
+
+  if (needsZip64) {
+    // ZIP64 end of central directory record
+    view.setUint32(0, 0x06064b50, true);
+    view.setBigUint64(4, BigInt(44), true);
+    view.setUint16(12, VERSION_ZIP64, true);
+    view.setUint16(14, VERSION_ZIP64, true);
+    view.setBigUint64(24, BigInt(count), true);
+    view.setBigUint64(32, BigInt(count), true);
+    view.setBigUint64(40, BigInt(cdSize), true);
+    view.setBigUint64(48, BigInt(cdOffset), true);
+    // ZIP64 end of central directory locator
+    view.setUint32(56, 0x07064b50, true);
+    view.setBigUint64(64, BigInt(cdOffset + cdSize), true);
+    view.setUint32(72, 1, true);
+  }
+
+  const eocd = zip64Length;
+  view.setUint32(eocd, 0x06054b50, true);
+  view.setUint16(eocd + 8, Math.min(count, MAX_16), true);
+  view.setUint16(eocd + 10, Math.min(count, MAX_16), true);
+  view.setUint32(eocd + 12, Math.min(cdSize, MAX_32), true);
+  view.setUint32(eocd + 16, Math.min(cdOffset, MAX_32), true);
+  return records;
+};
+
+export const createZipWriter = (sink: ZipSink): ZipWriter => {
+  const encoder = new TextEncoder();
+  const entries: CentralEntry[] = [];
+  let offset = 0;
+  // Entries must be written back to back, so concurrent addFile calls are chained
+  let queue: Promise<void> = Promise.resolve();
+
+  const write = async (chunk: Uint8Array) => {
+    await sink.write(chunk);
+    offset += chunk.length;
+  };
+
+  const writeEntry = async (path: string, data: Blob | string, modified: Date) => {
+    const blob = typeof data === 'string' ? new Blob([data]) : data;
+
+    // First pass computes the CRC so the header can be written up front
+    let crc = 0;
+    await forEachChunk(blob, chunk => { crc = updateCrc(crc, chunk); });
+
+    const entry: CentralEntry = {
+      name: encoder.encode(path),
+      crc,
+      size: blob.size,
+      offset,
+      ...toDosDateTime(modified)
+    };
+
+    await write(localHeader(entry));
+    await forEachChunk(blob, write);
+    entries.push(entry);
+  };
+
+  return {
+    addFile: (path, data, modified = new Date()) => {
+      const next = queue.then(() => writeEntry(path, data, modified));
+      queue = next.catch(() => undefined);
+      return next;
+    },
+    close: async () => {
+      await queue;
+      const cdOffset = offset;
+      for (const entry of entries) {
+        await write(centralHeader(entry));
+      }
+      await write(endRecords(entries.length, offset - cdOffset, cdOffset));
+      await sink.close();
+    }
+  };
+};
@@ -6,19 +6,334 @@ export enum TaskStatus {
   ERROR = 'ERROR',
 }
 
+// Live byte-level progress of a file transfer
+export interface TransferProgress {
+  receivedBytes: number;
+  totalBytes?: number; // From Content-Length, missing if the server doesn't send it
+  bytesPerSecond: number;
+  etaSeconds?: number;
+}
+
 export interface VideoTask {
   id: string;
   url: string;
+  // Numeric TikTok video ID, used to spot duplicates
+  videoId?: string;
+  // Where the link came from, e.g. "Pasted" or "Favorite Videos"
+  source?: string;
   status: TaskStatus;
   progress: number;
   title?: string;
   thumbnail?: string;
   downloadUrl?: string;
   errorMessage?: string;
+  errorKind?: ErrorKind;
+  // Every request made for this task, oldest first (capped, see MAX_ATTEMPTS_PER_TASK)
+  attempts?: FetchAttempt[];
+  // Set when the task was interrupted mid-download by a reload or crash
+  resumable?: boolean;
+  // Present while the video file itself is being fetched
+  transfer?: TransferProgress;
+  // Name and byte size of the saved file (size comes from the resolver until downloaded)
+  fileName?: string;
+  fileSize?: number;
+  metadata?: VideoMetadata;
+  variants?: VideoVariant[];
+  // Per-task override of the batch default quality
+  quality?: VideoQuality;
+  // Variant that was actually saved (may differ after a fallback)
+  savedQuality?: VideoQuality;
+  // Per-task override of the batch default media type
+  mediaType?: MediaType;
+  savedMediaType?: MediaType;
+  postType?: PostType;
+  images?: string[];
+  checksums?: FileChecksum[]; // One per saved file (several for slideshows)
+}
+
+export interface FileChecksum {
+  path: string;
+  sha256: string;
+}
+
+// One row of the batch manifest
+export interface ManifestEntry {
+  url: string;
+  videoId?: string;
+  source?: string;
+  title?: string;
+  author?: string;
+  createdAt?: string; // ISO date of the upload
+  duration?: number;
+  status: TaskStatus;
+  errorMessage?: string;
+  errorKind?: ErrorKind;
+  fileName?: string;
+  fileSize?: number;
+  postType?: PostType;
+  imageCount?: number;
+  mediaType?: MediaType;
+  quality?: VideoQuality;
+  sha256?: string;
+}
+
+// One part of a multi-volume ZIP and the paths written into it
+export interface ArchiveVolume {
+  fileName: string;
+  files: string[];
+}
+
+export interface BatchManifest {
+  generatedAt: string;
+  totalTasks: number;
+  entries: ManifestEntry[];
+  // Multi-volume archives only, so a single part can be matched to its entries
+  volumes?: ArchiveVolume[];
+}
+
+// One list of links found in an imported file
+export interface ImportSection {
+  id: string;
+  label: string;
+  fileName: string;
+  links: string[];
+}
+
+// A pasted line or URL that did not make it into the queue
+export interface RejectedLink {
+  input: string;
+  reason: string;
+  duplicate?: boolean;
+}
+
+export interface LinkIntakeResult {
+  accepted: { url: string; videoId?: string }[];
+  rejected: RejectedLink[];
+}
+
+// What addLinks reports back to the input UI
+export interface LinkIntakeReport {
+  added: number;
+  rejected: RejectedLink[];
+}
+
+// Renditions a video can be saved in
+export type VideoQuality = 'hd' | 'standard' | 'watermarked';
+
+// Why a task failed; decides whether retrying makes sense (see ERROR_POLICIES)
+export type ErrorKind =
+  | 'rate-limited'
+  | 'unavailable' // Private or deleted
+  | 'region-blocked'
+  | 'invalid-url'
+  | 'proxies-failed'
+  | 'timeout'
+  | 'expired-url'
+  | 'invalid-content'
+  | 'unknown';
+
+// How a single request made for a task ended
+export type AttemptOutcome =
+  | 'ok'
+  | 'http-error'
+  | 'parse-error' // Answered, but not with JSON
+  | 'invalid-content' // Answered, but not with the expected media
+  | 'provider-error' // The resolver API itself reported a problem
+  | 'timeout'
+  | 'network-error';
+
+// One entry of a task's attempt log
+export interface FetchAttempt {
+  at: number; // Epoch ms when the attempt started
+  strategy: string; // Proxy label, or the resolver provider for provider errors
+  urlKind: 'api' | 'media';
+  target: string; // Host and path only; signed query strings are left out
+  status?: number;
+  latencyMs: number; // Until the outcome was known
+  outcome: AttemptOutcome;
+  detail?: string;
+}
+
+// Regular video or photo carousel ("slideshow") post
+export type PostType = 'video' | 'slideshow';
+
+// Save the video itself or only its soundtrack
+export type MediaType = 'video' | 'audio';
+
+// One downloadable rendition of a video
+export interface VideoVariant {
+  quality: VideoQuality;
+  url: string;
+  size?: number;
+}
+
+// Normalized video metadata, independent of which API provider resolved it
+export interface ResolvedVideo {
+  videoId?: string;
+  title: string;
+  thumbnail?: string;
+  downloadUrl?: string; // Standard (no watermark) MP4, missing for slideshows
+  size?: number;
+  variants?: VideoVariant[];
+  postType?: PostType;
+  images?: string[]; // Slideshow image URLs in order
+  metadata?: VideoMetadata;
+}
+
+export interface VideoAuthor {
+  id?: string;
+  uniqueId?: string; // The @handle
+  nickname?: string;
+  avatar?: string;
+}
+
+export interface VideoMusic {
+  id?: string;
+  title?: string;
+  author?: string;
+  url?: string;
+  cover?: string;
+  duration?: number; // Seconds
+  original?: boolean;
+}
+
+export interface VideoStats {
+  plays?: number;
+  likes?: number;
+  comments?: number;
+  shares?: number;
+  saves?: number;
+  downloads?: number;
+}
+
+// Everything the resolver tells us about a post beyond the download URL
+export interface VideoMetadata {
+  author?: VideoAuthor;
+  duration?: number; // Seconds
+  createTime?: number; // Unix seconds
+  region?: string;
+  music?: VideoMusic;
+  stats?: VideoStats;
+}
+
+// One post from a creator's profile listing
+export interface ProfilePost {
+  videoId: string;
+  url: string;
+  title?: string;
+  thumbnail?: string;
+  createTime?: number; // Unix seconds
+}
+
+// One page of a profile listing; pass `cursor` back to get the next one
+export interface ProfilePostsPage {
+  posts: ProfilePost[];
+  cursor?: string;
+  hasMore: boolean;
+}
+
+// Narrow a scanned profile before enqueueing (dates are Unix seconds, inclusive)
+export interface ProfileFilters {
+  since?: number;
+  until?: number;
+  maxCount?: number;
+}
+
+// A creator whose new posts are queued automatically (watch mode)
+export interface WatchedProfile {
+  username: string;
+  // Newest post seen so far; only posts with a higher ID are queued
+  newestVideoId?: string;
+  lastCheckedAt?: number;
+  lastError?: string;
+}
+
+export interface WatchSettings {
+  // Queue TikTok links found on the clipboard whenever the window regains focus
+  clipboard: boolean;
+  profiles: WatchedProfile[];
+  intervalMinutes: number;
+}
+
+// A provider that turns a TikTok link into normalized metadata
+export interface VideoResolver {
+  name: string;
+  resolve: (url: string, signal?: AbortSignal, onAttempt?: (attempt: FetchAttempt) => void) => Promise<ResolvedVideo>;
+  // Optional: not every provider can list a creator's posts
+  listUserPosts?: (username: string, cursor?: string, signal?: AbortSignal) => Promise<ProfilePostsPage>;
+}
+
+// One way of reaching a target URL (public CORS proxy, self-hosted proxy or direct)
+export interface ProxyStrategy {
+  id: string;
+  label: string;
+  buildUrl: (targetUrl: string) => string;
+  // Set for user-added proxies, e.g. "https://proxy.example.com/?url={url}"
+  template?: string;
+}
+
+// Session health of a proxy strategy
+export interface ProxyStats {
+  id: string;
+  label: string;
+  custom: boolean;
+  successes: number;
+  failures: number;
+  consecutiveFailures: number;
+  avgLatencyMs?: number;
+  // Circuit breaker: strategy is skipped until this timestamp
+  trippedUntil?: number;
+}
+
+// Which file system the names must be valid on
+export type FileSystemProfile = 'universal' | 'windows' | 'mac' | 'linux';
+
+// How saved files are named, e.g. "{author}/{date}_{id}_{title}"
+export interface FileNameSettings {
+  template: string;
+  fileSystem: FileSystemProfile;
+}
+
+// User-tunable throughput limits for resolving
+export interface SchedulerSettings {
+  concurrency: number;
+  maxRatePerSecond: number;
+}
+
+// Top-level folder each file is sorted into inside the batch folder
+export type ArchiveGrouping = 'none' | 'author' | 'date' | 'source';
+
+export interface ArchiveSettings {
+  grouping: ArchiveGrouping;
+  // Roll over into numbered ZIP volumes past this size; 0 means a single archive
+  maxVolumeBytes: number;
+}
+
+// One finished download in the cross-session ledger, keyed by the canonical video ID
+export interface HistoryEntry {
+  videoId: string;
+  url: string;
+  title?: string;
+  author?: string;
+  fileName?: string;
+  quality?: VideoQuality;
+  mediaType?: MediaType;
+  downloadedAt: number; // Unix milliseconds
+}
+
+// Live limiter state, shown in the settings panel
+export interface SchedulerState {
+  ratePerSecond: number;
+  backoffUntil?: number;
+  consecutiveRateLimits: number;
 }
 
 export interface BatchSummary {
   folderName: string;
   description: string;
   totalVideos: number;
+  topAuthors: { name: string; count: number }[];
+  topHashtags: { tag: string; count: number }[];
+  totalDuration: number; // Seconds
+  totalSize: number; // Bytes, as reported by the resolver or saved
 }
\ No newline at end of file
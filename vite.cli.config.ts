@@ -0,0 +1,20 @@
+import { defineConfig } from 'vite';
+
+// Node build of the headless CLI (cli/tokbatch.ts). Unlike the app build, process.env
+// is left alone so RESOLVER_PROVIDERS / FIXTURE_API_URL are read at run time.
+export default defineConfig({
+  // The PWA files in public/ belong to the web app only
+  publicDir: false,
+  build: {
+    ssr: 'cli/tokbatch.ts',
+    outDir: 'dist-cli',
+    target: 'node20',
+    emptyOutDir: true,
+    rollupOptions: {
+      output: {
+        entryFileNames: 'tokbatch.js',
+        banner: '#!/usr/bin/env node'
+      }
+    }
+  }
+});
@@ -11,6 +11,10 @@ export default defineConfig(({ mode }) => {
         host: '0.0.0.0',
       },
       plugins: [react()],
+      define: {
+        'process.env.RESOLVER_PROVIDERS': JSON.stringify(env.RESOLVER_PROVIDERS || ''),
+        'process.env.FIXTURE_API_URL': JSON.stringify(env.FIXTURE_API_URL || '')
+      },
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),